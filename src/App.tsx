@@ -1,6 +1,7 @@
 import { useState } from 'react'
 import { Box, Container } from '@mui/material'
 import { useGameFlow } from './hooks/useGameFlow'
+import { useProfileStore } from './stores/profileStore'
 import Header from './components/layout/Header'
 import Navigation from './components/layout/Navigation'
 import GameBoard from './components/game/GameBoard'
@@ -14,6 +15,7 @@ type ViewType = 'game' | 'stats' | 'settings' | 'tutorial'
 
 function App() {
   const [currentView, setCurrentView] = useState<ViewType>('game')
+  const activeProfileId = useProfileStore(state => state.activeProfileId)
   
   // Initialize game flow (timers and keyboard controls)
   useGameFlow()
@@ -50,7 +52,9 @@ function App() {
       <Header />
       <Navigation currentView={currentView} onViewChange={setCurrentView} />
       
+      {/* Remounted per profile so no view keeps local state from the previous one */}
       <Container
+        key={activeProfileId}
         maxWidth="lg"
         sx={{
           flex: 1,
@@ -0,0 +1,97 @@
+import React, { useState, useEffect } from 'react'
+import {
+  Box,
+  Paper,
+  Typography,
+  Button,
+  LinearProgress,
+  Fade,
+  alpha,
+  useTheme,
+} from '@mui/material'
+import {
+  PlayArrow as PlayIcon,
+  Stop as StopIcon,
+} from '@mui/icons-material'
+import { useGameStore } from '../../stores/gameStore'
+import { calculateAccuracy, formatDuration } from '../../utils/gameLogic'
+
+const BreakScreen: React.FC = () => {
+  const { blockSession, settings, score, startGame, endBlockSession } = useGameStore()
+  const theme = useTheme()
+  const [now, setNow] = useState(Date.now())
+
+  // Tick once a second for the countdown; the game flow hook starts the next block
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [])
+
+  if (!blockSession) return null
+
+  const isPlan = blockSession.kind === 'plan'
+  const secondsLeft = Math.max(0, Math.ceil(((blockSession.breakEndsAt ?? now) - now) / 1000))
+  const progress = isPlan
+    ? Math.min(100, (blockSession.blockCount / blockSession.plannedBlocks) * 100)
+    : Math.min(100, (blockSession.playedTime / blockSession.targetDuration) * 100)
+  const remaining = Math.max(0, blockSession.targetDuration - blockSession.playedTime)
+  const lastLevel = blockSession.levels[blockSession.levels.length - 1]
+  const totalDecisions = score.totalCorrect + score.totalIncorrect + score.totalMissed + score.totalCorrectRejections
+  const accuracy = calculateAccuracy(score.totalCorrect, score.totalIncorrect, score.totalMissed, totalDecisions)
+
+  return (
+    <Fade in={true}>
+      <Paper
+        elevation={3}
+        sx={{
+          p: 4,
+          textAlign: 'center',
+          maxWidth: '500px',
+          margin: '0 auto',
+          background: `linear-gradient(135deg, ${alpha(theme.palette.info.main, 0.1)} 0%, ${alpha(theme.palette.secondary.main, 0.1)} 100%)`,
+          border: `1px solid ${alpha(theme.palette.divider, 0.1)}`,
+        }}
+      >
+        <Typography variant="h4" gutterBottom color="primary">
+          ☕ Break
+        </Typography>
+        <Typography variant="h2" sx={{ fontWeight: 'bold', mb: 1 }}>
+          {secondsLeft}
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+          Block {blockSession.blockCount + 1} starts automatically
+        </Typography>
+
+        <Typography variant="body1" sx={{ mb: 1 }}>
+          Block {blockSession.blockCount}: {accuracy.toFixed(1)}% accuracy
+        </Typography>
+        {isPlan && lastLevel !== undefined && (
+          <Typography variant="body2" sx={{ mb: 1, fontWeight: 600 }}>
+            {settings.nLevel > lastLevel
+              ? `Level up: ${lastLevel}-Back → ${settings.nLevel}-Back`
+              : settings.nLevel < lastLevel
+                ? `Level down: ${lastLevel}-Back → ${settings.nLevel}-Back`
+                : `Staying at ${settings.nLevel}-Back`}
+          </Typography>
+        )}
+        <LinearProgress variant="determinate" value={progress} sx={{ height: 8, borderRadius: 4, mb: 1 }} />
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+          {isPlan
+            ? `${blockSession.blockCount} of ${blockSession.plannedBlocks} blocks played`
+            : `${formatDuration(blockSession.playedTime)} played • ${formatDuration(remaining)} left today`}
+        </Typography>
+
+        <Box sx={{ display: 'flex', justifyContent: 'center', gap: 2, flexWrap: 'wrap' }}>
+          <Button variant="contained" startIcon={<PlayIcon />} onClick={startGame} sx={{ fontWeight: 600 }}>
+            Start Next Block
+          </Button>
+          <Button variant="outlined" color="inherit" startIcon={<StopIcon />} onClick={endBlockSession}>
+            {isPlan ? 'End Training Plan' : 'End Training Day'}
+          </Button>
+        </Box>
+      </Paper>
+    </Fade>
+  )
+}
+
+export default BreakScreen
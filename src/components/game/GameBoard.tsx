@@ -1,11 +1,9 @@
-import React, { useState, useCallback, useEffect } from 'react'
+import React, { useState, useEffect } from 'react'
 import {
   Box,
   Paper,
-  Grid,
   Typography,
   Fade,
-  Zoom,
   alpha,
   useTheme,
   Button,
@@ -15,8 +13,14 @@ import {
   Celebration as CelebrationIcon,
 } from '@mui/icons-material'
 import { useGameStore } from '../../stores/gameStore'
+import { useStatsStore } from '../../stores/statsStore'
 import { playAudioTone, prewarmSpeechSynthesis } from '../../utils/audioManager'
-import { indexToRowCol, calculateAccuracy } from '../../utils/gameLogic'
+import { calculateAccuracy, calculatePacingSummary, formatDuration, formatNBackLabel, formatPercentage, getActiveModalities, getMinimumN } from '../../utils/gameLogic'
+import { FalseAlarmRate, calculateLureFalseAlarms, calculateModalityDetection, combineLureFalseAlarms, formatDetectionValue, scoreTrialLogByNBack } from '../../utils/scoring'
+import { getModalityLabel, getModeName, getSecondAudioType, getVisualStimulus, hasVisualModality } from '../../utils/modalities'
+import { formatTrialCue, summarizeArithmetic } from '../../utils/arithmetic'
+import StimulusGrid from './StimulusGrid'
+import BreakScreen from './BreakScreen'
 
 const GameBoard: React.FC = () => {
   const { 
@@ -27,12 +31,18 @@ const GameBoard: React.FC = () => {
     settings,
     score,
     currentStimulusIndex,
+    gameEndTime,
+    seed,
+    trials,
+    sequence,
+    blockSession,
     updateSettings,
     resetGame,
   } = useGameStore()
+  const { levelChanges } = useStatsStore()
   
   const theme = useTheme()
-  const [activePosition, setActivePosition] = useState<number | null>(null)
+  const [activeStimulus, setActiveStimulus] = useState<ReturnType<typeof getVisualStimulus> | null>(null)
   const [preparationTime, setPreparationTime] = useState<number | null>(null)
 
   // Effect to handle game preparation countdown
@@ -73,93 +83,82 @@ const GameBoard: React.FC = () => {
     const currentStimulus = useGameStore.getState().currentStimulus()
     
     if (!currentStimulus || gamePhase !== 'stimulus' || preparationTime !== null) {
-      setActivePosition(null)
+      setActiveStimulus(null)
       return
     }
 
-    // Show visual stimulus
-    if (settings.showVisual) {
-      setActivePosition(currentStimulus.position)
+    const modalities = getActiveModalities(settings)
+
+    // Show visual stimulus (position, color and shape share the grid)
+    if (hasVisualModality(modalities)) {
+      setActiveStimulus(getVisualStimulus(currentStimulus, modalities, settings.gridSize))
     }
 
-    // Play audio stimulus
-    if (settings.showAudio) {
+    // Play audio stimulus; Arithmetic N-back always speaks the number to calculate with
+    if (settings.showAudio || settings.arithmeticMode) {
       playAudioTone(
         currentStimulus.audio,
-        settings.audioType,
+        settings.arithmeticMode ? 'numbers' : settings.audioType,
         settings.stimulusDuration,
-        settings.volume
+        settings.volume,
+        settings
+      )
+    }
+
+    // Play the second audio channel alongside the first
+    if (settings.showSecondAudio && currentStimulus.audio2 !== undefined) {
+      playAudioTone(
+        currentStimulus.audio2,
+        getSecondAudioType(settings.audioType),
+        settings.stimulusDuration,
+        settings.volume,
+        settings
       )
     }
 
     // Clear visual stimulus after duration
     const timer = setTimeout(() => {
-      setActivePosition(null)
+      setActiveStimulus(null)
     }, settings.stimulusDuration)
 
     return () => clearTimeout(timer)
   }, [currentStimulusIndex, gamePhase, settings, preparationTime])
 
-  const renderGridCell = useCallback((index: number) => {
-    const { row, col } = indexToRowCol(index, settings.gridSize)
-    const isActive = activePosition === index
-    
-    return (
-      <Grid item xs={12 / settings.gridSize} key={`${row}-${col}`}>
-        <Zoom in={true} timeout={200} style={{ transitionDelay: `${index * 20}ms` }}>
-          <Paper
-            elevation={isActive ? 8 : 2}
-            sx={{
-              aspectRatio: '1',
-              display: 'flex',
-              alignItems: 'center',
-              justifyContent: 'center',
-              cursor: 'pointer',
-              transition: 'all 0.3s cubic-bezier(0.4, 0, 0.2, 1)',
-              background: isActive
-                ? `linear-gradient(135deg, ${alpha(theme.palette.primary.main, 0.8)} 0%, ${alpha(theme.palette.secondary.main, 0.8)} 100%)`
-                : alpha(theme.palette.background.paper, 0.8),
-              border: `2px solid ${isActive ? alpha(theme.palette.primary.main, 0.8) : alpha(theme.palette.divider, 0.2)}`,
-              borderRadius: 2,
-              transform: isActive ? 'scale(1.05)' : 'scale(1)',
-              boxShadow: isActive
-                ? `0 8px 25px ${alpha(theme.palette.primary.main, 0.4)}`
-                : `0 2px 8px ${alpha(theme.palette.common.black, 0.1)}`,
-              '&:hover': {
-                transform: 'scale(1.02)',
-                boxShadow: `0 4px 15px ${alpha(theme.palette.primary.main, 0.2)}`,
-              },
-            }}
-          >
-            <Box
-              sx={{
-                width: '60%',
-                height: '60%',
-                borderRadius: '50%',
-                background: isActive
-                  ? 'rgba(255, 255, 255, 0.9)'
-                  : alpha(theme.palette.primary.main, 0.1),
-                transition: 'all 0.3s ease',
-              }}
-            />
-          </Paper>
-        </Zoom>
-      </Grid>
-    )
-  }, [activePosition, settings.gridSize, theme])
+  // Rest between the blocks of a timed session
+  if (gamePhase === 'break') {
+    return <BreakScreen />
+  }
 
   // Show results when game is completed
   if (gamePhase === 'completed') {
-    const accuracy = calculateAccuracy(score.totalCorrect, score.totalIncorrect, score.totalMissed, settings.totalRounds)
+    const totalDecisions = score.totalCorrect + score.totalIncorrect + score.totalMissed + score.totalCorrectRejections
+    const accuracy = calculateAccuracy(score.totalCorrect, score.totalIncorrect, score.totalMissed, totalDecisions)
     const isExcellentPerformance = accuracy >= 90
-    const canLevelUp = isExcellentPerformance && nLevel < 10
+    // Automatic progression may already have moved nLevel on; report against the level just played
+    const latestLevelChange = levelChanges[levelChanges.length - 1]
+    const levelChange = gameEndTime && latestLevelChange && latestLevelChange.date >= gameEndTime
+      ? latestLevelChange
+      : null
+    const playedLevel = levelChange?.fromLevel ?? nLevel
+    const canLevelUp = isExcellentPerformance && playedLevel < 10 && !settings.progression.enabled
+    const modalities = getActiveModalities(settings)
+    const detection = modalities.map(modality => ({ modality, metrics: calculateModalityDetection(score, modality) }))
+    const pacing = calculatePacingSummary(trials)
+    const arithmetic = summarizeArithmetic(trials)
+    const nBackBreakdown = trials.some(trial => trial.stimulus.nBack !== undefined)
+      ? scoreTrialLogByNBack(trials, playedLevel, modalities)
+      : []
+    const lureRates = combineLureFalseAlarms(calculateLureFalseAlarms(trials))
+    const lureBreakdown = modalities.map(modality => ({ modality, rates: calculateLureFalseAlarms(trials, modality) }))
+    const formatFalseAlarms = ({ falseAlarms, trials: count, rate }: FalseAlarmRate) =>
+      `${falseAlarms}/${count} (${formatPercentage(rate * 100, 0)})`
     
     const handleContinueNextLevel = () => {
       // Clear any existing preparation state
       setPreparationTime(null)
       
       // Update level and reset game in sequence
-      updateSettings({ nLevel: nLevel + 1 })
+      updateSettings({ nLevel: playedLevel + 1 })
       resetGame()
       
       // Start the game after a brief delay to ensure state is clean
@@ -202,9 +201,14 @@ const GameBoard: React.FC = () => {
           }}
         >
           
-          <Typography variant="h4" gutterBottom color="primary" sx={{ mb: 3 }}>
+          <Typography variant="h4" gutterBottom color="primary" sx={{ mb: seed !== null ? 1 : 3 }}>
             Final Score: {accuracy.toFixed(1)}%
           </Typography>
+          {seed !== null && (
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+              Seed {seed} • share it to play the same sequence
+            </Typography>
+          )}
 
           {/* Excellent Performance Message */}
           {isExcellentPerformance && (
@@ -216,7 +220,7 @@ const GameBoard: React.FC = () => {
                 </Typography>
               </Box>
               <Typography variant="body2" sx={{ color: 'orange' }}>
-                You've mastered the {nLevel}-back level with {accuracy.toFixed(1)}% accuracy!
+                You've mastered the {playedLevel}-back level with {accuracy.toFixed(1)}% accuracy!
               </Typography>
             </Box>
           )}
@@ -227,12 +231,11 @@ const GameBoard: React.FC = () => {
               <Typography variant="h6" gutterBottom>
                 ✅ Correct ({score.totalCorrect})
               </Typography>
-              <Typography variant="body2" sx={{ mb: 1 }}>
-                Position: {score.positionCorrect}
-              </Typography>
-              <Typography variant="body2">
-                Audio: {score.audioCorrect}
-              </Typography>
+              {detection.map(({ modality, metrics }) => (
+                <Typography key={modality} variant="body2" sx={{ mb: 1 }}>
+                  {getModalityLabel(modality)}: {metrics.hits}
+                </Typography>
+              ))}
             </Paper>
 
             {/* Incorrect Responses */}
@@ -240,12 +243,11 @@ const GameBoard: React.FC = () => {
               <Typography variant="h6" gutterBottom>
                 ❌ Incorrect ({score.totalIncorrect})
               </Typography>
-              <Typography variant="body2" sx={{ mb: 1 }}>
-                Position: {score.positionIncorrect}
-              </Typography>
-              <Typography variant="body2">
-                Audio: {score.audioIncorrect}
-              </Typography>
+              {detection.map(({ modality, metrics }) => (
+                <Typography key={modality} variant="body2" sx={{ mb: 1 }}>
+                  {getModalityLabel(modality)}: {metrics.falseAlarms}
+                </Typography>
+              ))}
             </Paper>
           </Box>
 
@@ -254,14 +256,118 @@ const GameBoard: React.FC = () => {
               <Typography variant="h6" gutterBottom>
                 ⏰ Missed Opportunities: {score.totalMissed}
               </Typography>
-              <Typography variant="body2" sx={{ mb: 1 }}>
-                Position matches missed: {score.missedPositional}
-              </Typography>
-              <Typography variant="body2" sx={{ mb: 1 }}>
-                Audio matches missed: {score.missedAudio}
+              {detection.map(({ modality, metrics }) => (
+                <Typography key={modality} variant="body2" sx={{ mb: 1 }}>
+                  {getModalityLabel(modality)} matches missed: {metrics.misses}
+                </Typography>
+              ))}
+            </Paper>
+
+            {/* Signal Detection Summary */}
+            <Paper elevation={1} sx={{ p: 2, mb: 3, backgroundColor: alpha(theme.palette.info.main, 0.8) }}>
+              <Typography variant="h6" gutterBottom>
+                🎯 Sensitivity (d′)
               </Typography>
+              {detection.map(({ modality, metrics }) => (
+                <Typography key={modality} variant="body2" sx={{ mb: 1 }}>
+                  {getModalityLabel(modality)}: d′ {formatDetectionValue(metrics.dPrime)}
+                  {' • '}c {formatDetectionValue(metrics.criterion)}
+                  {' • '}Hits {formatPercentage(metrics.hitRate * 100, 0)}
+                  {' • '}False alarms {formatPercentage(metrics.falseAlarmRate * 100, 0)}
+                </Typography>
+              ))}
             </Paper>
 
+            {/* Lure Resistance */}
+            {lureRates.trials > 0 && (
+              <Paper elevation={1} sx={{ p: 2, mb: 3, backgroundColor: alpha(theme.palette.warning.dark, 0.8) }}>
+                <Typography variant="h6" gutterBottom>
+                  🪤 Lure False Alarms: {formatPercentage(lureRates.rate * 100, 0)}
+                </Typography>
+                {lureBreakdown.map(({ modality, rates }) => (
+                  <Typography key={modality} variant="body2" sx={{ mb: 1 }}>
+                    {getModalityLabel(modality)}: N-1 {formatFalseAlarms(rates.nMinus1Lure)}
+                    {' • '}N+1 {formatFalseAlarms(rates.nPlus1Lure)}
+                    {' • '}Neutral {formatFalseAlarms(rates.neutral)}
+                  </Typography>
+                ))}
+              </Paper>
+            )}
+
+            {/* Variable N-Back Breakdown */}
+            {nBackBreakdown.length > 0 && (
+              <Paper elevation={1} sx={{ p: 2, mb: 3, backgroundColor: alpha(theme.palette.primary.main, 0.8) }}>
+                <Typography variant="h6" gutterBottom>
+                  🔢 Accuracy by N
+                </Typography>
+                {nBackBreakdown.map(({ nBack, score: nBackScore }) => {
+                  const decisions = nBackScore.totalCorrect + nBackScore.totalIncorrect + nBackScore.totalMissed + nBackScore.totalCorrectRejections
+                  return (
+                    <Typography key={nBack} variant="body2" sx={{ mb: 1 }}>
+                      {nBack}-Back: {formatPercentage(calculateAccuracy(nBackScore.totalCorrect, nBackScore.totalIncorrect, nBackScore.totalMissed, decisions), 0)}
+                      {' • '}Hits {nBackScore.totalCorrect} • Misses {nBackScore.totalMissed} • False alarms {nBackScore.totalIncorrect}
+                    </Typography>
+                  )
+                })}
+              </Paper>
+            )}
+
+            {/* Arithmetic Summary */}
+            {arithmetic.total > 0 && (
+              <Paper elevation={1} sx={{ p: 2, mb: 3, backgroundColor: alpha(theme.palette.success.dark, 0.8) }}>
+                <Typography variant="h6" gutterBottom>
+                  🧮 Arithmetic: {arithmetic.correct}/{arithmetic.total} ({formatPercentage(arithmetic.accuracy, 0)})
+                </Typography>
+                <Typography variant="body2">
+                  Answered {arithmetic.answered} • Wrong {arithmetic.answered - arithmetic.correct} • Unanswered {arithmetic.total - arithmetic.answered}
+                </Typography>
+              </Paper>
+            )}
+
+            {/* Self-Paced Summary */}
+            {pacing.count > 0 && (
+              <Paper elevation={1} sx={{ p: 2, mb: 3, backgroundColor: alpha(theme.palette.secondary.main, 0.8) }}>
+                <Typography variant="h6" gutterBottom>
+                  ⏸️ Self-Paced Breaks
+                </Typography>
+                <Typography variant="body2" sx={{ mb: 1 }}>
+                  Average pause: {(pacing.average / 1000).toFixed(1)}s • Longest: {(pacing.longest / 1000).toFixed(1)}s
+                </Typography>
+                <Typography variant="body2">
+                  Total time paused: {formatDuration(pacing.total)} over {pacing.count} trials
+                </Typography>
+              </Paper>
+            )}
+
+          {/* Timed Training Day / Training Plan Wrap-up */}
+          {blockSession?.completed && (
+            <Box sx={{ mb: 3, p: 2, backgroundColor: alpha(theme.palette.success.main, 0.1), borderRadius: 2 }}>
+              <Typography variant="h6" color="success.main" sx={{ fontWeight: 600, mb: 1 }}>
+                {blockSession.kind === 'plan' ? '📋 Training Plan Complete' : '⏱️ Training Day Complete'}
+              </Typography>
+              <Typography variant="body2" color="text.secondary">
+                {blockSession.blockCount} blocks • {formatDuration(blockSession.playedTime)} played
+              </Typography>
+              {blockSession.kind === 'plan' && (
+                <Typography variant="body2" sx={{ mt: 1, fontWeight: 600 }}>
+                  N trajectory: {blockSession.levels.join(' → ')}
+                </Typography>
+              )}
+            </Box>
+          )}
+
+          {/* Automatic Level Change */}
+          {levelChange && (
+            <Box sx={{ mb: 3, p: 2, backgroundColor: alpha(theme.palette.info.main, 0.1), borderRadius: 2 }}>
+              <Typography variant="h6" color="info.main" sx={{ fontWeight: 600, mb: 1 }}>
+                {levelChange.toLevel > levelChange.fromLevel ? '⬆️ Level Up' : '⬇️ Level Down'}: next session is {levelChange.toLevel}-Back
+              </Typography>
+              <Typography variant="body2" color="text.secondary">
+                {levelChange.reason}
+              </Typography>
+            </Box>
+          )}
+
           {/* Continue to Next Level Button */}
           {canLevelUp && (
             <Fade in={true} timeout={1000}>
@@ -289,19 +395,19 @@ const GameBoard: React.FC = () => {
                   transition: 'all 0.3s cubic-bezier(0.4, 0, 0.2, 1)',
                 }}
               >
-                Continue to {nLevel + 1}-Back Level
+                Continue to {playedLevel + 1}-Back Level
               </Button>
             </Fade>
           )}
 
           {/* Max Level Reached Message */}
-          {isExcellentPerformance && nLevel >= 10 && (
+          {isExcellentPerformance && playedLevel >= 10 && (
             <Box sx={{ mt: 2, p: 2, backgroundColor: alpha(theme.palette.info.main, 0.1), borderRadius: 2 }}>
               <Typography variant="h6" color="info.main" sx={{ fontWeight: 600, mb: 1 }}>
                 🏆 Master Level Achieved!
               </Typography>
               <Typography variant="body2" color="text.secondary">
-                You've reached the maximum difficulty level. Congratulations on mastering the Dual N-Back challenge!
+                You've reached the maximum difficulty level. Congratulations on mastering the {getModeName(modalities.length)} challenge!
               </Typography>
             </Box>
           )}
@@ -330,10 +436,14 @@ const GameBoard: React.FC = () => {
             💡 New to the game? Visit the <strong>Tutorial</strong> tab for complete instructions and tips!
           </Typography>
           <Typography variant="body1" color="text.secondary" sx={{ mb: 2 }}>
-            Click "Start Game" to begin your Dual N-Back training session.
+            Click "Start Game" to begin your {getModeName(getActiveModalities(settings).length)} training session.
           </Typography>
           <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
-            You'll need to identify when stimuli match those from {nLevel} steps back.
+            {settings.nBackMode === 'crab'
+              ? `Crab-back: each group of ${nLevel} stimuli is matched against the previous group in reverse order.`
+              : getMinimumN(settings, nLevel) < nLevel
+                ? `Each trial shows a number from ${getMinimumN(settings, nLevel)} to ${nLevel}: match against that many steps back.`
+                : `You'll need to identify when stimuli match those from ${nLevel} steps back.`}
           </Typography>
           
           {/* Advanced Algorithm Features */}
@@ -401,7 +511,11 @@ const GameBoard: React.FC = () => {
                 {(preparationTime ?? 0) > 0 ? 'Get Ready...' : 'Game Starting!'}
               </Typography>
               <Typography variant="body2" color="text.secondary">
-                {nLevel}-Back Level • Remember {nLevel} steps back
+                {settings.nBackMode === 'crab'
+                  ? `${formatNBackLabel(settings, nLevel)} • Compare each group of ${nLevel} with the last one, mirrored`
+                  : getMinimumN(settings, nLevel) < nLevel
+                    ? `${formatNBackLabel(settings, nLevel)} • Follow the number shown on the grid`
+                    : `${nLevel}-Back Level • Remember ${nLevel} steps back`}
               </Typography>
             </Box>
           </Fade>
@@ -409,80 +523,23 @@ const GameBoard: React.FC = () => {
 
         {/* Game Grid - only show when not in preparation */}
         {isPlaying && preparationTime === null && (
-          <Grid 
-            container 
-            spacing={1.5} 
-            sx={{ 
-              maxWidth: '300px', 
-              margin: '0 auto',
-              backgroundImage: 'url(/generated_head.png)',
-              backgroundSize: 'cover',
-              backgroundPosition: 'center',
-              backgroundRepeat: 'no-repeat',
-              borderRadius: 2,
-              padding: '12px 6px 6px 0px',
-              position: 'relative',
-              justifyContent: 'center',
-              '&::before': {
-                content: '""',
-                position: 'absolute',
-                top: 0,
-                left: 0,
-                right: 0,
-                bottom: 0,
-                backgroundColor: 'rgba(0, 0, 0, 0.3)',
-                borderRadius: 2,
-                zIndex: 0,
-              },
-              '& > .MuiGrid-item': {
-                position: 'relative',
-                zIndex: 1,
-                paddingLeft: '6px !important',
-                paddingTop: '6px !important',
-              }
-            }}
-          >
-            {Array.from({ length: settings.gridSize ** 2 }, (_, index) => renderGridCell(index))}
-          </Grid>
+          <StimulusGrid
+            gridSize={settings.gridSize}
+            activePosition={activeStimulus?.position ?? null}
+            activeColor={activeStimulus?.color}
+            activeShape={activeStimulus?.shape}
+            cue={formatTrialCue(sequence[currentStimulusIndex])}
+          />
         )}
 
         {/* Show grid for non-playing states */}
         {!isPlaying && (
-          <Grid 
-            container 
-            spacing={1.5} 
-            sx={{ 
-              maxWidth: '300px', 
-              margin: '0 auto',
-              backgroundImage: 'url(/generated_head.png)',
-              backgroundSize: 'cover',
-              backgroundPosition: 'center',
-              backgroundRepeat: 'no-repeat',
-              borderRadius: 2,
-              padding: '12px 6px 6px 0px',
-              position: 'relative',
-              justifyContent: 'center',
-              '&::before': {
-                content: '""',
-                position: 'absolute',
-                top: 0,
-                left: 0,
-                right: 0,
-                bottom: 0,
-                backgroundColor: 'rgba(0, 0, 0, 0.3)',
-                borderRadius: 2,
-                zIndex: 0,
-              },
-              '& > .MuiGrid-item': {
-                position: 'relative',
-                zIndex: 1,
-                paddingLeft: '6px !important',
-                paddingTop: '6px !important',
-              }
-            }}
-          >
-            {Array.from({ length: settings.gridSize ** 2 }, (_, index) => renderGridCell(index))}
-          </Grid>
+          <StimulusGrid
+            gridSize={settings.gridSize}
+            activePosition={activeStimulus?.position ?? null}
+            activeColor={activeStimulus?.color}
+            activeShape={activeStimulus?.shape}
+          />
         )}
 
         {/* Game Info */}
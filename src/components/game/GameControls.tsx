@@ -16,6 +16,7 @@ import {
   DialogTitle,
   DialogContent,
   DialogActions,
+  Alert,
 } from '@mui/material'
 import {
   PlayArrow as PlayIcon,
@@ -24,11 +25,28 @@ import {
   Settings as SettingsIcon,
   VolumeUp as VolumeUpIcon,
   Grid4x4Sharp,
+  Palette as PaletteIcon,
+  Category as ShapeIcon,
+  MusicNote as SecondAudioIcon,
+  SkipNext as NextIcon,
+  Backspace as BackspaceIcon,
+  Calculate as ArithmeticIcon,
 } from '@mui/icons-material'
 import { ResponseType } from '../../types/game'
 import { useGameStore } from '../../stores/gameStore'
 import { useStatsStore } from '../../stores/statsStore'
-import { generateSessionId } from '../../utils/gameLogic'
+import { formatNBackLabel, generateSessionId, getActiveModalities, getRoundsPerGame } from '../../utils/gameLogic'
+import { validateExactTargets } from '../../utils/exactSequenceGenerator'
+import { MODALITIES, getModalityDefinition, getModalityLabel, getModeName } from '../../utils/modalities'
+import { ProgressionDecision, evaluateBlockProgression, evaluateProgression } from '../../utils/progression'
+
+const modalityIcons: Record<ResponseType, React.ReactElement> = {
+  position: <Grid4x4Sharp />,
+  color: <PaletteIcon />,
+  shape: <ShapeIcon />,
+  audio: <VolumeUpIcon />,
+  audio2: <SecondAudioIcon />,
+}
 
 const GameControls: React.FC = () => {
   const {
@@ -38,16 +56,32 @@ const GameControls: React.FC = () => {
     gamePhase,
     gameEndTime,
     gameStartTime,
+    reachedEnd,
     score,
     responses,
+    trials,
+    sequence,
+    adaptiveAdjustments,
     feedback,
     settings,
+    samplePackStatus,
+    seed,
+    nextSeed,
+    queueSeed,
     startGame,
     resetGame,
     updateSettings,
-    submitResponseIfValid
+    submitResponseIfValid,
+    continueToNext,
+    arithmeticInput,
+    currentStimulusIndex,
+    waitingForResponse,
+    typeArithmeticKey,
+    submitArithmeticAnswer,
+    blockSession,
+    finishBlock,
   } = useGameStore()
-  const { addGameSession } = useStatsStore()
+  const { addGameSession, recordLevelChange, recordTrainingDayBlock, recordTrainingSessionBlock } = useStatsStore()
 
   
   const [showQuickSettings, setShowQuickSettings] = useState(false)
@@ -58,8 +92,9 @@ const GameControls: React.FC = () => {
     return feedbackState ? 'green' : 'red';
   }
 
-  const handlePositionMatch = () => submitResponseIfValid('position')
-  const handleAudioMatch = () => submitResponseIfValid('audio')
+  const activeModalities = getActiveModalities(settings)
+  const arithmeticTrial = trials.find(trial => trial.stimulusIndex === currentStimulusIndex)?.arithmetic
+  const arithmeticAnswered = arithmeticTrial !== undefined && arithmeticTrial.answer !== null
 
   // Handle game completion
   useEffect(() => {
@@ -68,20 +103,67 @@ const GameControls: React.FC = () => {
         id: generateSessionId(),
         date: Date.now(),
         nLevel: nLevel,
-        totalRounds: currentRound,
+        totalRounds: getRoundsPerGame(settings),
         completedRounds: currentRound,
         score: score,
         duration: gameStartTime ? gameEndTime - gameStartTime : 0,
         settings,
         responses: responses,
-        completed: true,
+        completed: reachedEnd,
+        adaptiveAdjustments: settings.sequenceMode === 'adaptive' ? adaptiveAdjustments : undefined,
+        sequence,
+        trials,
+        performanceTimeOrigin: performance.timeOrigin,
+        seed: seed ?? undefined,
+        trainingDayId: blockSession?.kind === 'timed' ? blockSession.id : undefined,
+        trainingSessionId: blockSession?.kind === 'plan' ? blockSession.id : undefined,
+        trainingBlock: blockSession ? blockSession.blockCount + 1 : undefined,
       }
       addGameSession(session)
+
+      // Blocks are filed under their training day or plan, then the player rests or wraps up
+      if (blockSession) {
+        if (blockSession.kind === 'timed') {
+          recordTrainingDayBlock(blockSession, session)
+        } else {
+          recordTrainingSessionBlock(blockSession, session)
+        }
+        finishBlock(session)
+      }
+
+      const applyProgression = (decision: ProgressionDecision | null) => {
+        if (decision && decision.nextLevel !== nLevel) {
+          recordLevelChange({
+            date: Date.now(),
+            sessionId: session.id,
+            fromLevel: nLevel,
+            toLevel: decision.nextLevel,
+            reason: decision.reason,
+          })
+          updateSettings({ nLevel: decision.nextLevel })
+        }
+      }
+
+      // Training plans set the next block's level from that block's errors alone;
+      // otherwise automatic progression picks the next level from the full history,
+      // which may still be loading from IndexedDB right after the app opens
+      if (blockSession?.kind === 'plan') {
+        applyProgression(evaluateBlockProgression(session, settings.progression))
+      } else if (settings.progression.enabled) {
+        useStatsStore.getState().loadHistory()
+          .then(() => applyProgression(evaluateProgression(useStatsStore.getState().stats.sessions, nLevel, settings.progression)))
+      }
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [gamePhase, gameEndTime]) // Only depend on completion trigger
 
-  const canStart = !isPlaying
+  const canStart = !isPlaying && gamePhase !== 'break'
+  // Sample audio needs its pack decoded before the sequence can be built from it
+  const waitingForSamples = settings.audioType === 'samples' && samplePackStatus !== 'ready'
+  // Exact mode only starts when every configured target fits in the session
+  const exactTargetErrors = settings.sequenceMode === 'exact'
+    ? validateExactTargets(settings.exactTargets, getRoundsPerGame(settings), activeModalities)
+    : []
 
   return (
     <Fade in={true}>
@@ -94,6 +176,7 @@ const GameControls: React.FC = () => {
               {canStart && (
                 <Button
                   onClick={startGame}
+                  disabled={waitingForSamples || exactTargetErrors.length > 0}
                   startIcon={<PlayIcon />}
                   sx={{
                     px: 3,
@@ -102,7 +185,7 @@ const GameControls: React.FC = () => {
                     fontWeight: 600,
                   }}
                 >
-                  Start Game
+                  {samplePackStatus === 'loading' ? 'Loading Samples…' : 'Start Game'}
                 </Button>
               )}
               
@@ -120,64 +203,126 @@ const GameControls: React.FC = () => {
             )}
           </Box>
 
+          {canStart && waitingForSamples && samplePackStatus !== 'loading' && (
+            <Alert severity="error" sx={{ mb: 3 }}>
+              {samplePackStatus === 'missing'
+                ? 'The selected sample pack could not be loaded. Choose or import another pack in Settings, or pick a different audio type.'
+                : 'Choose a sample pack in Settings, or pick a different audio type, to start a game.'}
+            </Alert>
+          )}
+
+          {canStart && exactTargetErrors.length > 0 && (
+            <Alert severity="error" sx={{ mb: 3 }}>
+              The exact target counts do not fit this session; change them in Settings to start a game.
+              {exactTargetErrors.map(error => <div key={error}>{error}</div>)}
+            </Alert>
+          )}
+
           {/* Response Section */}
           {isPlaying && (
             <Fade in={true}>
               <Box>
                 {/* Response Buttons*/}
-                <Box sx={{ display: 'flex', justifyContent: 'center', gap: 3, mb: 3 }}>
-                  <Button
-                    onClick={handlePositionMatch}
-                    id="position-btn"
-                    sx={{
-                      px: 2,
-                      py: 1.5,
-                      fontSize: '0.9rem',
-                      fontWeight: 600,
-                      backgroundColor: getButtonColor('position'),
-                      borderRadius: 2,
-                      display: 'flex',
-                      flexDirection: 'column',
-                      alignItems: 'center',
-                      minWidth: '120px',
-                      minHeight: '80px',
-                      '&:hover': {
-                        backgroundColor: getButtonColor('position') === 'darkgrey' ? 'grey' : getButtonColor('position'),
-                      },
-                    }}
-                  >
-                    <Typography sx={{ fontSize: '0.875rem', fontWeight: 600, mb: 0.5 }}>
-                      Position Match
+                <Box sx={{ display: 'flex', justifyContent: 'center', flexWrap: 'wrap', gap: 3, mb: 3 }}>
+                  {activeModalities.map((modality) => (
+                    <Button
+                      key={modality}
+                      onClick={() => submitResponseIfValid(modality)}
+                      id={`${modality}-btn`}
+                      sx={{
+                        px: 2,
+                        py: 1.5,
+                        fontSize: '0.9rem',
+                        fontWeight: 600,
+                        backgroundColor: getButtonColor(modality),
+                        borderRadius: 2,
+                        display: 'flex',
+                        flexDirection: 'column',
+                        alignItems: 'center',
+                        minWidth: '120px',
+                        minHeight: '80px',
+                        '&:hover': {
+                          backgroundColor: getButtonColor(modality) === 'darkgrey' ? 'grey' : getButtonColor(modality),
+                        },
+                      }}
+                    >
+                      <Typography sx={{ fontSize: '0.875rem', fontWeight: 600, mb: 0.5 }}>
+                        {getModalityLabel(modality)} Match
+                      </Typography>
+                      {modalityIcons[modality]}
+                      <Typography sx={{ fontSize: '0.7rem', opacity: 0.8, mt: 0.5 }}>
+                        {getModalityDefinition(modality).keyHint}
+                      </Typography>
+                    </Button>
+                  ))}
+                </Box>
+
+                {/* Arithmetic keypad: type N-back number <op> current number */}
+                {settings.arithmeticMode && (
+                  <Box sx={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: 1, mb: 3 }}>
+                    <Box
+                      sx={{
+                        minWidth: 120,
+                        px: 2,
+                        py: 1,
+                        borderRadius: 2,
+                        textAlign: 'center',
+                        fontSize: '1.5rem',
+                        fontWeight: 700,
+                        backgroundColor: arithmeticAnswered
+                          ? (arithmeticTrial.correct ? 'green' : 'red')
+                          : 'darkgrey',
+                      }}
+                    >
+                      {arithmeticAnswered ? arithmeticTrial.answer : arithmeticInput || '?'}
+                    </Box>
+                    <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(3, 56px)', gap: 1 }}>
+                      {['1', '2', '3', '4', '5', '6', '7', '8', '9', '-', '0', 'Backspace'].map((key) => (
+                        <Button
+                          key={key}
+                          variant="outlined"
+                          onClick={() => typeArithmeticKey(key)}
+                          disabled={!waitingForResponse || arithmeticAnswered || !arithmeticTrial}
+                          aria-label={key === 'Backspace' ? 'Delete digit' : key === '-' ? 'Toggle minus sign' : key}
+                          sx={{ minWidth: 0, fontWeight: 600 }}
+                        >
+                          {key === 'Backspace' ? <BackspaceIcon fontSize="small" /> : key === '-' ? '±' : key}
+                        </Button>
+                      ))}
+                    </Box>
+                    <Button
+                      variant="contained"
+                      onClick={submitArithmeticAnswer}
+                      disabled={!waitingForResponse || arithmeticAnswered || arithmeticInput === '' || !arithmeticTrial}
+                      startIcon={<ArithmeticIcon />}
+                      sx={{ fontWeight: 600 }}
+                    >
+                      Submit Answer
+                    </Button>
+                    <Typography variant="caption" color="text.secondary">
+                      Type with the number keys and press Enter
                     </Typography>
-                    <Grid4x4Sharp />
-                  </Button>
+                  </Box>
+                )}
 
-                  <Button
-                    onClick={handleAudioMatch}
-                    id="audio-btn"
-                    sx={{
-                      px: 2,
-                      py: 1.5,
-                      fontSize: '0.9rem',
-                      fontWeight: 600,
-                      backgroundColor: getButtonColor('audio'),
-                      borderRadius: 2,
-                      display: 'flex',
-                      flexDirection: 'column',
-                      alignItems: 'center',
-                      minWidth: '120px',
-                      minHeight: '80px',
-                      '&:hover': {
-                        backgroundColor: getButtonColor('audio') === 'darkgrey' ? 'grey' : getButtonColor('audio'),
-                      },
-                    }}
-                  >
-                    <Typography sx={{ fontSize: '0.875rem', fontWeight: 600, mb: 0.5 }}>
-                      Audio Match
+                {/* Self-paced play waits here until the player is ready */}
+                {!settings.autoAdvance && (
+                  <Box sx={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: 1, mb: 3 }}>
+                    <Button
+                      variant="contained"
+                      color="secondary"
+                      onClick={continueToNext}
+                      disabled={gamePhase !== 'awaitingNext'}
+                      endIcon={<NextIcon />}
+                      sx={{ px: 4, fontWeight: 600 }}
+                    >
+                      Next
+                    </Button>
+                    <Typography variant="caption" color="text.secondary">
+                      {gamePhase === 'awaitingNext' ? 'Press Enter or click Next when ready' : 'Self-paced mode'}
                     </Typography>
-                    <VolumeUpIcon />
-                  </Button>
-                </Box>
+                  </Box>
+                )}
               </Box>
             </Fade>
           )}
@@ -187,9 +332,9 @@ const GameControls: React.FC = () => {
 
           {/* Quick Settings */}
           <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
-            <Box sx={{ display: 'flex', gap: 2, alignItems: 'center' }}>
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2, alignItems: 'center' }}>
               <Chip
-                label={`${nLevel}-Back`}
+                label={formatNBackLabel(settings, nLevel)}
                 color="primary"
                 sx={{ fontWeight: 600 }}
               />
@@ -197,8 +342,38 @@ const GameControls: React.FC = () => {
                 label={`Round ${currentRound}`}
                 variant="outlined"
               />
-              {settings.showVisual && <Chip label="Visual" size="small" color="primary" variant="outlined" />}
-              {settings.showAudio && <Chip label="Audio" size="small" color="secondary" variant="outlined" />}
+              {settings.sessionLengthMode === 'timed' && (
+                <Chip
+                  label={blockSession?.kind === 'timed' && !blockSession.completed
+                    ? `Block ${blockSession.blockCount + 1} • ${settings.timedMinutes} min day`
+                    : `Timed • ${settings.timedMinutes} min`}
+                  size="small"
+                  color="secondary"
+                  variant="outlined"
+                />
+              )}
+              {settings.sessionLengthMode === 'plan' && (
+                <Chip
+                  label={blockSession?.kind === 'plan' && !blockSession.completed
+                    ? `Block ${blockSession.blockCount + 1} of ${blockSession.plannedBlocks}`
+                    : `Plan • ${settings.planBlocks} blocks`}
+                  size="small"
+                  color="secondary"
+                  variant="outlined"
+                />
+              )}
+              <Chip label={getModeName(activeModalities.length)} size="small" color="secondary" variant="outlined" />
+              {activeModalities.map((modality) => (
+                <Chip key={modality} label={getModalityLabel(modality)} size="small" color="primary" variant="outlined" />
+              ))}
+              {settings.arithmeticMode && (
+                <Chip label="Arithmetic" size="small" color="primary" variant="outlined" icon={<ArithmeticIcon />} />
+              )}
+              {nextSeed !== null && !isPlaying && (
+                <Tooltip title="The next game replays this seed">
+                  <Chip label={`Seed ${nextSeed}`} size="small" color="info" onDelete={() => queueSeed(null)} />
+                </Tooltip>
+              )}
             </Box>
             
             <Tooltip title="Quick Settings">
@@ -251,25 +426,28 @@ const GameControls: React.FC = () => {
               />
               
               <Box sx={{ mt: 3, display: 'flex', flexDirection: 'column', gap: 1 }}>
+                {MODALITIES.map((definition) => (
+                  <FormControlLabel
+                    key={definition.id}
+                    control={
+                      <Switch
+                        checked={Boolean(settings[definition.settingKey])}
+                        onChange={(e) => updateSettings({ [definition.settingKey]: e.target.checked })}
+                        disabled={isPlaying}
+                      />
+                    }
+                    label={`${definition.label} Stimuli`}
+                  />
+                ))}
                 <FormControlLabel
                   control={
                     <Switch
-                      checked={settings.showVisual}
-                      onChange={(e) => updateSettings({ showVisual: e.target.checked })}
-                      disabled={isPlaying}
-                    />
-                  }
-                  label="Visual Stimuli"
-                />
-                <FormControlLabel
-                  control={
-                    <Switch
-                      checked={settings.showAudio}
-                      onChange={(e) => updateSettings({ showAudio: e.target.checked })}
+                      checked={settings.arithmeticMode}
+                      onChange={(e) => updateSettings({ arithmeticMode: e.target.checked })}
                       disabled={isPlaying}
                     />
                   }
-                  label="Audio Stimuli"
+                  label="Arithmetic N-Back"
                 />
               </Box>
             </Box>
@@ -0,0 +1,148 @@
+import React, { useCallback } from 'react'
+import {
+  Box,
+  Paper,
+  Grid,
+  Zoom,
+  alpha,
+  useTheme,
+} from '@mui/material'
+import { indexToRowCol } from '../../utils/gameLogic'
+import { STIMULUS_COLORS, STIMULUS_SHAPES } from '../../utils/modalities'
+
+interface StimulusGridProps {
+  gridSize: number
+  activePosition: number | null
+  activeColor?: number // Index into STIMULUS_COLORS for the color modality
+  activeShape?: number // Index into STIMULUS_SHAPES for the shape modality
+  cue?: string // Per-trial cue: the N in variable N-back and/or the operation in Arithmetic N-back
+}
+
+const StimulusGrid: React.FC<StimulusGridProps> = ({ gridSize, activePosition, activeColor, activeShape, cue }) => {
+  const theme = useTheme()
+
+  const renderGridCell = useCallback((index: number) => {
+    const { row, col } = indexToRowCol(index, gridSize)
+    const isActive = activePosition === index
+    const color = isActive && activeColor !== undefined ? STIMULUS_COLORS[activeColor] : undefined
+    const shape = isActive && activeShape !== undefined ? STIMULUS_SHAPES[activeShape] : undefined
+
+    return (
+      <Grid item xs={12 / gridSize} key={`${row}-${col}`}>
+        <Zoom in={true} timeout={200} style={{ transitionDelay: `${index * 20}ms` }}>
+          <Paper
+            elevation={isActive ? 8 : 2}
+            sx={{
+              aspectRatio: '1',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              cursor: 'pointer',
+              transition: 'all 0.3s cubic-bezier(0.4, 0, 0.2, 1)',
+              background: color
+                ? color
+                : isActive
+                  ? `linear-gradient(135deg, ${alpha(theme.palette.primary.main, 0.8)} 0%, ${alpha(theme.palette.secondary.main, 0.8)} 100%)`
+                  : alpha(theme.palette.background.paper, 0.8),
+              border: `2px solid ${isActive ? alpha(theme.palette.primary.main, 0.8) : alpha(theme.palette.divider, 0.2)}`,
+              borderRadius: 2,
+              transform: isActive ? 'scale(1.05)' : 'scale(1)',
+              boxShadow: isActive
+                ? `0 8px 25px ${alpha(theme.palette.primary.main, 0.4)}`
+                : `0 2px 8px ${alpha(theme.palette.common.black, 0.1)}`,
+              '&:hover': {
+                transform: 'scale(1.02)',
+                boxShadow: `0 4px 15px ${alpha(theme.palette.primary.main, 0.2)}`,
+              },
+            }}
+          >
+            {shape ? (
+              <Box component="svg" viewBox="0 0 24 24" sx={{ width: '60%', height: '60%' }}>
+                <path d={shape.path} fill="rgba(255, 255, 255, 0.9)" />
+              </Box>
+            ) : (
+              <Box
+                sx={{
+                  width: '60%',
+                  height: '60%',
+                  borderRadius: '50%',
+                  background: isActive
+                    ? 'rgba(255, 255, 255, 0.9)'
+                    : alpha(theme.palette.primary.main, 0.1),
+                  transition: 'all 0.3s ease',
+                }}
+              />
+            )}
+          </Paper>
+        </Zoom>
+      </Grid>
+    )
+  }, [activePosition, activeColor, activeShape, gridSize, theme])
+
+  return (
+    <Grid
+      container
+      spacing={1.5}
+      sx={{
+        maxWidth: '300px',
+        margin: '0 auto',
+        backgroundImage: 'url(/generated_head.png)',
+        backgroundSize: 'cover',
+        backgroundPosition: 'center',
+        backgroundRepeat: 'no-repeat',
+        borderRadius: 2,
+        padding: '12px 6px 6px 0px',
+        position: 'relative',
+        justifyContent: 'center',
+        '&::before': {
+          content: '""',
+          position: 'absolute',
+          top: 0,
+          left: 0,
+          right: 0,
+          bottom: 0,
+          backgroundColor: 'rgba(0, 0, 0, 0.3)',
+          borderRadius: 2,
+          zIndex: 0,
+        },
+        '& > .MuiGrid-item': {
+          position: 'relative',
+          zIndex: 1,
+          paddingLeft: '6px !important',
+          paddingTop: '6px !important',
+        }
+      }}
+    >
+      {Array.from({ length: gridSize ** 2 }, (_, index) => renderGridCell(index))}
+
+      {/* Variable N-back cue, kept above the grid so it never hides a stimulus */}
+      {cue !== undefined && (
+        <Box
+          sx={{
+            position: 'absolute',
+            top: -18,
+            left: '50%',
+            transform: 'translateX(-50%)',
+            zIndex: 2,
+            minWidth: 36,
+            height: 36,
+            px: 1,
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            borderRadius: '18px',
+            fontSize: '1.25rem',
+            fontWeight: 700,
+            color: theme.palette.primary.contrastText,
+            background: `linear-gradient(135deg, ${theme.palette.primary.main} 0%, ${theme.palette.secondary.main} 100%)`,
+            boxShadow: `0 4px 12px ${alpha(theme.palette.primary.main, 0.4)}`,
+          }}
+        >
+          {cue}
+        </Box>
+      )}
+    </Grid>
+  )
+}
+
+export default StimulusGrid
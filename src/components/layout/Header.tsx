@@ -14,6 +14,7 @@ import {
   GitHub as GitHubIcon,
   Info as InfoIcon,
 } from '@mui/icons-material'
+import ProfileSwitcher from './ProfileSwitcher'
 
 const Header: React.FC = () => {
   const theme = useTheme()
@@ -55,6 +56,8 @@ const Header: React.FC = () => {
         </Box>
 
         <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <ProfileSwitcher />
+
           <Tooltip title="About this game">
             <IconButton
               size="medium"
@@ -0,0 +1,110 @@
+import React, { useState } from 'react'
+import {
+  Button,
+  Menu,
+  MenuItem,
+  ListItemIcon,
+  ListItemText,
+  Divider,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  Tooltip,
+  useTheme,
+  alpha,
+} from '@mui/material'
+import {
+  AccountCircle as ProfileIcon,
+  Check as CheckIcon,
+  PersonAdd as AddProfileIcon,
+  ArrowDropDown as ArrowDropDownIcon,
+} from '@mui/icons-material'
+import { useProfiles } from '../../hooks/useProfiles'
+import { MAX_PROFILE_NAME_LENGTH } from '../../utils/profiles'
+
+const ProfileSwitcher: React.FC = () => {
+  const theme = useTheme()
+  const { profiles, activeProfile, canSwitch, switchProfile, createProfile } = useProfiles()
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null)
+  const [showCreateDialog, setShowCreateDialog] = useState(false)
+  const [newProfileName, setNewProfileName] = useState('')
+
+  const handleSwitch = (id: string) => {
+    setAnchorEl(null)
+    switchProfile(id).catch(error => console.error('Failed to switch profile:', error))
+  }
+
+  const handleCreate = () => {
+    createProfile(newProfileName).catch(error => console.error('Failed to create profile:', error))
+    setShowCreateDialog(false)
+    setNewProfileName('')
+  }
+
+  return (
+    <>
+      <Tooltip title={canSwitch ? 'Switch profile' : 'Finish or stop the game to switch profiles'}>
+        <span>
+          <Button
+            onClick={(e) => setAnchorEl(e.currentTarget)}
+            disabled={!canSwitch}
+            startIcon={<ProfileIcon />}
+            endIcon={<ArrowDropDownIcon />}
+            sx={{ color: 'white', textTransform: 'none', '&.Mui-disabled': { color: alpha(theme.palette.common.white, 0.6) } }}
+          >
+            {activeProfile.name}
+          </Button>
+        </span>
+      </Tooltip>
+
+      <Menu anchorEl={anchorEl} open={Boolean(anchorEl)} onClose={() => setAnchorEl(null)}>
+        {profiles.map(profile => (
+          <MenuItem key={profile.id} selected={profile.id === activeProfile.id} onClick={() => handleSwitch(profile.id)}>
+            <ListItemIcon>
+              {profile.id === activeProfile.id && <CheckIcon fontSize="small" />}
+            </ListItemIcon>
+            <ListItemText>{profile.name}</ListItemText>
+          </MenuItem>
+        ))}
+        <Divider />
+        <MenuItem
+          onClick={() => {
+            setAnchorEl(null)
+            setShowCreateDialog(true)
+          }}
+        >
+          <ListItemIcon>
+            <AddProfileIcon fontSize="small" />
+          </ListItemIcon>
+          <ListItemText>New profile…</ListItemText>
+        </MenuItem>
+      </Menu>
+
+      <Dialog open={showCreateDialog} onClose={() => setShowCreateDialog(false)} maxWidth="xs" fullWidth>
+        <DialogTitle>New Profile</DialogTitle>
+        <DialogContent>
+          <TextField
+            autoFocus
+            fullWidth
+            label="Name"
+            value={newProfileName}
+            onChange={(e) => setNewProfileName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+            inputProps={{ maxLength: MAX_PROFILE_NAME_LENGTH }}
+            helperText="The new profile starts with default settings and an empty history"
+            sx={{ mt: 1 }}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setShowCreateDialog(false)}>Cancel</Button>
+          <Button onClick={handleCreate} variant="contained">
+            Create
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  )
+}
+
+export default ProfileSwitcher
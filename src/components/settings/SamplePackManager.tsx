@@ -0,0 +1,134 @@
+import React, { useEffect, useState } from 'react'
+import {
+  Box,
+  Typography,
+  FormControl,
+  Select,
+  MenuItem,
+  InputLabel,
+  Button,
+  Alert,
+  LinearProgress,
+} from '@mui/material'
+import {
+  FolderOpen as FolderIcon,
+  LibraryMusic as PackIcon,
+  Delete as DeleteIcon,
+} from '@mui/icons-material'
+import { SamplePack } from '../../types/game'
+import { useGameStore } from '../../stores/gameStore'
+import {
+  MAX_SAMPLE_SECONDS,
+  deleteSamplePack,
+  getSamplePackName,
+  importSamplePack,
+  listSamplePacks,
+  loadSamplePack,
+  readSampleFiles,
+} from '../../utils/samplePacks'
+
+// Lets the file input pick a whole folder; the attribute is missing from React's input props
+const folderInputProps = { webkitdirectory: '' }
+
+const SamplePackManager: React.FC = () => {
+  const { settings, samplePackStatus, updateSettings } = useGameStore()
+  const [packs, setPacks] = useState<SamplePack[]>([])
+  const [importing, setImporting] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    listSamplePacks().then(setPacks).catch(console.error)
+  }, [])
+
+  // Select a pack only once its clips are in memory, so the sound count and warnings see them
+  const selectPack = async (packId: string | null) => {
+    const loaded = packId ? await loadSamplePack(packId) : null
+    updateSettings({ samplePackId: loaded ? loaded.pack.id : null })
+  }
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? [])
+    event.target.value = '' // Allow picking the same files again
+    if (files.length === 0) return
+
+    setImporting(true)
+    setError('')
+    try {
+      const loaded = await importSamplePack(getSamplePackName(files), await readSampleFiles(files))
+      setPacks(await listSamplePacks())
+      updateSettings({ samplePackId: loaded.pack.id })
+    } catch (importError) {
+      setError(importError instanceof Error ? importError.message : 'Could not import the sample pack')
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!settings.samplePackId) return
+    try {
+      await deleteSamplePack(settings.samplePackId)
+      setPacks(await listSamplePacks())
+      updateSettings({ samplePackId: null })
+    } catch (deleteError) {
+      console.error('Failed to delete sample pack:', deleteError)
+    }
+  }
+
+  return (
+    <Box sx={{ mb: 3 }}>
+      <FormControl fullWidth sx={{ mb: 2 }} disabled={packs.length === 0}>
+        <InputLabel>Sample Pack</InputLabel>
+        <Select
+          value={packs.some(pack => pack.id === settings.samplePackId) ? settings.samplePackId ?? '' : ''}
+          label="Sample Pack"
+          onChange={(e) => selectPack(e.target.value || null).catch(console.error)}
+        >
+          {packs.map(pack => (
+            <MenuItem key={pack.id} value={pack.id}>
+              {pack.name} ({pack.sampleNames.length} clips)
+            </MenuItem>
+          ))}
+        </Select>
+      </FormControl>
+
+      <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', mb: 1 }}>
+        <Button variant="outlined" size="small" component="label" startIcon={<FolderIcon />} disabled={importing}>
+          Import Folder
+          <input type="file" hidden multiple {...folderInputProps} onChange={handleImport} />
+        </Button>
+        <Button variant="outlined" size="small" component="label" startIcon={<PackIcon />} disabled={importing}>
+          Import Zip or Files
+          <input type="file" hidden multiple accept=".zip,.wav,.ogg,.mp3" onChange={handleImport} />
+        </Button>
+        <Button
+          color="error"
+          size="small"
+          startIcon={<DeleteIcon />}
+          onClick={handleDelete}
+          disabled={importing || !settings.samplePackId}
+        >
+          Delete Pack
+        </Button>
+      </Box>
+
+      {(importing || samplePackStatus === 'loading') && <LinearProgress sx={{ mb: 1 }} />}
+      {samplePackStatus === 'missing' && (
+        <Alert severity="error" sx={{ mb: 1 }}>
+          The selected sample pack could not be loaded. Choose or import another pack.
+        </Alert>
+      )}
+      {error && (
+        <Alert severity="error" sx={{ mb: 1 }} onClose={() => setError('')}>
+          {error}
+        </Alert>
+      )}
+      <Typography variant="caption" color="text.secondary" component="p">
+        Short wav, ogg or mp3 clips (up to {MAX_SAMPLE_SECONDS}s each) are decoded once and stored in this browser.
+        They play in file-name order, starting the moment the stimulus appears
+      </Typography>
+    </Box>
+  )
+}
+
+export default SamplePackManager
@@ -1,4 +1,4 @@
-import React, { useState } from 'react'
+import React, { useMemo, useState } from 'react'
 import {
   Box,
   Paper,
@@ -22,62 +22,147 @@ import {
   useTheme,
   alpha,
   Fade,
+  List,
+  ListItem,
+  ListItemText,
+  IconButton,
+  Chip,
+  Tooltip,
+  Radio,
+  RadioGroup,
+  Checkbox,
 } from '@mui/material'
 import {
   Download as ExportIcon,
   Upload as ImportIcon,
   DeleteForever as ClearIcon,
   Science as TestIcon,
+  Delete as DeleteIcon,
 } from '@mui/icons-material'
+import { AudioType, ExactTargetSettings, LetterSet, NBackMode, ProgressionSettings, ResponseType, SequenceMode, SessionLengthMode, TimingMode } from '../../types/game'
 import { useGameStore } from '../../stores/gameStore'
 import { useStatsStore } from '../../stores/statsStore'
 import { testAudio, preloadAudio } from '../../utils/audioManager'
+import { AUDIO_TYPE_LABELS, LETTER_SETS, MAX_AUDIO_SOUND_COUNT, MIN_AUDIO_SOUND_COUNT, getAudioSoundCount, validateAudioAlphabet } from '../../utils/audioAlphabet'
+import { PLAN_BLOCK_ROUNDS, formatNBackLabel, getActiveModalities, getMinimumN, getResponseWindowDuration, getRoundsPerGame } from '../../utils/gameLogic'
+import { getExactTargetCounts, validateExactTargets } from '../../utils/exactSequenceGenerator'
+import { MODALITIES, getModalityLabel, getModeName, getSecondAudioType } from '../../utils/modalities'
+import { parseSeed } from '../../utils/random'
+import { MAX_FREEZE_DAYS, getDeviceTimeZone, isValidTimeZone, resolveTimeZone } from '../../utils/trainingCalendar'
+import { MAX_PROFILE_NAME_LENGTH } from '../../utils/profiles'
+import { StatsImportMode, getStatsImportPreview, parseStatsImport } from '../../utils/statsImport'
+import { useProfiles } from '../../hooks/useProfiles'
+import SamplePackManager from './SamplePackManager'
+
+// Longer error lists are cut off; the first problems are usually enough to find the cause
+const MAX_SHOWN_IMPORT_ERRORS = 10
 
 const Settings: React.FC = () => {
-  const { settings, updateSettings } = useGameStore()
-  const { clearStats, exportStats, importStats } = useStatsStore()
+  const { settings, nLevel, nextSeed, updateSettings, importSettings, queueSeed } = useGameStore()
+  const { stats, historyLoaded, clearStats, exportStats, importStats, streakSettings, updateStreakSettings } = useStatsStore()
+  const { profiles, activeProfile, canSwitch, switchProfile, renameProfile, deleteProfile } = useProfiles()
   const theme = useTheme()
   
   const [showClearDialog, setShowClearDialog] = useState(false)
   const [showImportDialog, setShowImportDialog] = useState(false)
   const [importData, setImportData] = useState('')
   const [importError, setImportError] = useState('')
+  const [importMode, setImportMode] = useState<StatsImportMode>('merge')
+  const [applyImportedSettings, setApplyImportedSettings] = useState(true)
+  const [seedInput, setSeedInput] = useState('')
+  const [timeZoneInput, setTimeZoneInput] = useState(streakSettings.timeZone ?? '')
+  const [profileName, setProfileName] = useState(activeProfile.name)
+  const [profileToDelete, setProfileToDelete] = useState<string | null>(null)
 
   const handleVolumeChange = (_: Event, value: number | number[]) => {
     const volume = (value as number) / 100
     updateSettings({ volume })
   }
 
+  const updateProgression = (progression: Partial<ProgressionSettings>) => {
+    updateSettings({ progression: { ...settings.progression, ...progression } })
+  }
+
+  const updateExactTargets = (exactTargets: Partial<ExactTargetSettings>) => {
+    updateSettings({ exactTargets: { ...settings.exactTargets, ...exactTargets } })
+  }
+
+  const exactTargetErrors = validateExactTargets(settings.exactTargets, getRoundsPerGame(settings), getActiveModalities(settings))
+  const exactTargetCounts = getExactTargetCounts(settings.exactTargets, getActiveModalities(settings))
+
+  const audioProblems = validateAudioAlphabet(settings)
+  const gridCellCount = settings.gridSize * settings.gridSize
+
+  const timeZoneValid = timeZoneInput.trim() === '' || isValidTimeZone(timeZoneInput.trim())
+
+  const handleTimeZoneChange = (value: string) => {
+    setTimeZoneInput(value)
+    const timeZone = value.trim()
+    if (timeZone === '') {
+      updateStreakSettings({ timeZone: null })
+    } else if (isValidTimeZone(timeZone)) {
+      updateStreakSettings({ timeZone })
+    }
+  }
+
+  const handleQueueSeed = () => {
+    const seed = parseSeed(seedInput)
+    if (seed === null) return
+    queueSeed(seed)
+    setSeedInput('')
+  }
+
   const handleTestAudio = async () => {
     try {
       await preloadAudio()
-      await testAudio(settings.audioType, settings.volume)
+      await testAudio(settings.audioType, settings.volume, settings)
     } catch (error) {
       console.error('Audio test failed:', error)
     }
   }
 
-  const handleExportStats = () => {
-    const data = exportStats()
+  // A profile export carries its settings alongside the statistics; older statistics-only files still import.
+  // Sessions live in IndexedDB, so the export waits for them instead of writing a partial history
+  const handleExportStats = async () => {
+    await useStatsStore.getState().loadHistory()
+    const data = JSON.stringify({
+      profile: activeProfile.name,
+      settings: { settings, nLevel },
+      ...JSON.parse(exportStats()),
+    }, null, 2)
     const blob = new Blob([data], { type: 'application/json' })
     const url = URL.createObjectURL(blob)
     const a = document.createElement('a')
     a.href = url
-    a.download = `dual-n-back-stats-${new Date().toISOString().split('T')[0]}.json`
+    a.download = `dual-n-back-${activeProfile.name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}-${new Date().toISOString().split('T')[0]}.json`
     document.body.appendChild(a)
     a.click()
     document.body.removeChild(a)
     URL.revokeObjectURL(url)
   }
 
-  const handleImportStats = () => {
+  // Pasted data is validated as it is typed; nothing is written until the preview is confirmed
+  const importResult = useMemo(() => importData.trim() ? parseStatsImport(importData) : null, [importData])
+  const importPreview = importResult?.data ? getStatsImportPreview(importResult.data, stats.sessions) : null
+
+  const closeImportDialog = () => {
+    setShowImportDialog(false)
+    setImportData('')
+    setImportError('')
+  }
+
+  const handleImportStats = async () => {
+    const data = importResult?.data
+    if (!data) return
     try {
-      importStats(importData)
-      setShowImportDialog(false)
-      setImportData('')
-      setImportError('')
+      await importStats(data, importMode)
+      if (data.settings && applyImportedSettings) {
+        importSettings(data.settings)
+      }
+      closeImportDialog()
     } catch (error) {
-      setImportError('Invalid data format. Please check your file and try again.')
+      console.error('Failed to import statistics:', error)
+      setImportError('The imported data could not be saved. Please try again.')
     }
   }
 
@@ -86,6 +171,13 @@ const Settings: React.FC = () => {
     setShowClearDialog(false)
   }
 
+  const handleDeleteProfile = () => {
+    if (profileToDelete) {
+      deleteProfile(profileToDelete).catch(error => console.error('Failed to delete profile:', error))
+    }
+    setProfileToDelete(null)
+  }
+
   return (
     <Fade in={true}>
       <Box>
@@ -125,6 +217,46 @@ const Settings: React.FC = () => {
                   sx={{ mb: 3 }}
                 />
 
+                <FormControl fullWidth sx={{ mb: 2 }}>
+                  <InputLabel>N-Back Mode</InputLabel>
+                  <Select
+                    value={settings.nBackMode}
+                    label="N-Back Mode"
+                    onChange={(e) => updateSettings({ nBackMode: e.target.value as NBackMode })}
+                  >
+                    <MenuItem value="fixed">Fixed (same N every trial)</MenuItem>
+                    <MenuItem value="variable">Variable (each trial cues its N)</MenuItem>
+                    <MenuItem value="crab">Crab-back (mirrored N-back window)</MenuItem>
+                  </Select>
+                </FormControl>
+
+                {settings.nBackMode === 'crab' && (
+                  <Typography variant="caption" color="text.secondary" component="p" sx={{ mb: 3 }}>
+                    Each group of {settings.nLevel} stimuli is compared with the previous group in reverse order:
+                    1, 3, 5 … {settings.nLevel * 2 - 1} steps back. See the Tutorial for an example
+                  </Typography>
+                )}
+
+                {settings.nBackMode === 'variable' && (
+                  <>
+                    <Typography gutterBottom>Lowest Cued N: {getMinimumN(settings, settings.nLevel)}</Typography>
+                    <Slider
+                      value={getMinimumN(settings, settings.nLevel)}
+                      onChange={(_, value) => updateSettings({ variableNMinimum: value as number })}
+                      min={1}
+                      max={Math.max(1, settings.nLevel)}
+                      step={1}
+                      marks
+                      disabled={settings.nLevel <= 1}
+                      sx={{ mb: 1 }}
+                    />
+                    <Typography variant="caption" color="text.secondary" component="p" sx={{ mb: 3 }}>
+                      {formatNBackLabel(settings, settings.nLevel)} • A number on the grid shows how many steps back
+                      each trial is compared; the N-Back Level sets the highest cue
+                    </Typography>
+                  </>
+                )}
+
                 <Typography gutterBottom>Total Rounds: {settings.totalRounds}</Typography>
                 <Slider
                   value={settings.totalRounds}
@@ -139,9 +271,183 @@ const Settings: React.FC = () => {
                     { value: 75, label: '75' },
                     { value: 100, label: '100' },
                   ]}
+                  disabled={settings.sessionLengthMode === 'plan'}
                   sx={{ mb: 3 }}
                 />
 
+                <FormControl fullWidth sx={{ mb: 2 }}>
+                  <InputLabel>Session Length</InputLabel>
+                  <Select
+                    value={settings.sessionLengthMode}
+                    label="Session Length"
+                    onChange={(e) => updateSettings({ sessionLengthMode: e.target.value as SessionLengthMode })}
+                  >
+                    <MenuItem value="rounds">Fixed rounds</MenuItem>
+                    <MenuItem value="timed">Timed (blocks for a set number of minutes)</MenuItem>
+                    <MenuItem value="plan">Training plan (blocks of {PLAN_BLOCK_ROUNDS} + N trials)</MenuItem>
+                  </Select>
+                </FormControl>
+
+                {settings.sessionLengthMode === 'timed' && (
+                  <>
+                    <Typography gutterBottom>Training Time: {settings.timedMinutes} minutes</Typography>
+                    <Slider
+                      value={settings.timedMinutes}
+                      onChange={(_, value) => updateSettings({ timedMinutes: value as number })}
+                      min={5}
+                      max={60}
+                      step={5}
+                      marks={[
+                        { value: 5, label: '5' },
+                        { value: 20, label: '20' },
+                        { value: 40, label: '40' },
+                        { value: 60, label: '60' },
+                      ]}
+                      sx={{ mb: 2 }}
+                    />
+                  </>
+                )}
+
+                {settings.sessionLengthMode === 'plan' && (
+                  <>
+                    <Typography gutterBottom>Blocks per Plan: {settings.planBlocks}</Typography>
+                    <Slider
+                      value={settings.planBlocks}
+                      onChange={(_, value) => updateSettings({ planBlocks: value as number })}
+                      min={2}
+                      max={30}
+                      step={1}
+                      marks={[
+                        { value: 2, label: '2' },
+                        { value: 10, label: '10' },
+                        { value: 20, label: '20' },
+                        { value: 30, label: '30' },
+                      ]}
+                      sx={{ mb: 2 }}
+                    />
+                  </>
+                )}
+
+                {settings.sessionLengthMode !== 'rounds' && (
+                  <>
+                    <Typography gutterBottom>Break Between Blocks: {settings.breakDuration}s</Typography>
+                    <Slider
+                      value={settings.breakDuration}
+                      onChange={(_, value) => updateSettings({ breakDuration: value as number })}
+                      min={0}
+                      max={120}
+                      step={10}
+                      marks={[
+                        { value: 0, label: '0' },
+                        { value: 30, label: '30' },
+                        { value: 60, label: '60' },
+                        { value: 120, label: '120' },
+                      ]}
+                      sx={{ mb: 1 }}
+                    />
+                    <Typography variant="caption" color="text.secondary" component="p" sx={{ mb: 3 }}>
+                      {settings.sessionLengthMode === 'timed'
+                        ? `Blocks of ${settings.totalRounds} rounds play back to back until the time is used up. Each block is
+                          saved as its own session under the day's training record`
+                        : `N goes up after a block with fewer than ${settings.progression.advanceErrorLimit} errors in every
+                          modality and down after a block with more than ${settings.progression.fallbackErrorLimit} errors in
+                          any modality. Each block is saved as its own session under the plan's record`}
+                    </Typography>
+                  </>
+                )}
+
+                <FormControl fullWidth sx={{ mb: 2 }}>
+                  <InputLabel>Sequence Mode</InputLabel>
+                  <Select
+                    value={settings.sequenceMode}
+                    label="Sequence Mode"
+                    onChange={(e) => updateSettings({ sequenceMode: e.target.value as SequenceMode })}
+                  >
+                    <MenuItem value="static">Standard (pre-generated)</MenuItem>
+                    <MenuItem value="adaptive">Adaptive (adjusts to performance)</MenuItem>
+                    <MenuItem value="exact">Exact (fixed target counts)</MenuItem>
+                  </Select>
+                </FormControl>
+
+                {settings.sequenceMode === 'exact' && (
+                  <>
+                    {([
+                      ['position', 'Position-only Targets'],
+                      ['audio', 'Audio-only Targets'],
+                      ['dual', 'Dual Targets'],
+                    ] as const).map(([field, label]) => (
+                      <React.Fragment key={field}>
+                        <Typography gutterBottom>{label}: {settings.exactTargets[field]}</Typography>
+                        <Slider
+                          value={settings.exactTargets[field]}
+                          onChange={(_, value) => updateExactTargets({ [field]: value as number })}
+                          min={0}
+                          max={20}
+                          step={1}
+                          sx={{ mb: 1 }}
+                        />
+                      </React.Fragment>
+                    ))}
+
+                    <Typography gutterBottom>Max Targets in a Row: {settings.exactTargets.maxConsecutive}</Typography>
+                    <Slider
+                      value={settings.exactTargets.maxConsecutive}
+                      onChange={(_, value) => updateExactTargets({ maxConsecutive: value as number })}
+                      min={1}
+                      max={5}
+                      step={1}
+                      marks
+                      sx={{ mb: 1 }}
+                    />
+
+                    <Typography gutterBottom>Min Gap Between Targets: {settings.exactTargets.minGap}</Typography>
+                    <Slider
+                      value={settings.exactTargets.minGap}
+                      onChange={(_, value) => updateExactTargets({ minGap: value as number })}
+                      min={0}
+                      max={5}
+                      step={1}
+                      marks
+                      sx={{ mb: 1 }}
+                    />
+
+                    {exactTargetErrors.length > 0 ? (
+                      <Alert severity="warning" sx={{ mb: 3 }}>
+                        {exactTargetErrors.map(error => <div key={error}>{error}</div>)}
+                      </Alert>
+                    ) : (
+                      <Typography variant="caption" color="text.secondary" component="p" sx={{ mb: 3 }}>
+                        Every session has exactly {Object.entries(exactTargetCounts)
+                          .map(([modality, count]) => `${count} ${getModalityLabel(modality as ResponseType).toLowerCase()}`)
+                          .join(', ')} targets in {getRoundsPerGame(settings)} scored trials. Color, shape and second
+                        audio get as many targets each as position-only
+                      </Typography>
+                    )}
+                  </>
+                )}
+
+                <Box sx={{ display: 'flex', gap: 1, alignItems: 'flex-start', mb: 2 }}>
+                  <TextField
+                    label="Play a Seed"
+                    size="small"
+                    fullWidth
+                    value={seedInput}
+                    onChange={(e) => setSeedInput(e.target.value)}
+                    error={seedInput.trim() !== '' && parseSeed(seedInput) === null}
+                    helperText={nextSeed !== null
+                      ? `Next game uses seed ${nextSeed}`
+                      : 'Same seed and settings give everyone the same sequence'}
+                  />
+                  <Button variant="outlined" onClick={handleQueueSeed} disabled={parseSeed(seedInput) === null}>
+                    Use
+                  </Button>
+                  {nextSeed !== null && (
+                    <Button color="inherit" onClick={() => queueSeed(null)}>
+                      Clear
+                    </Button>
+                  )}
+                </Box>
+
                 <FormControl fullWidth sx={{ mb: 2 }}>
                   <InputLabel>Grid Size</InputLabel>
                   <Select
@@ -156,24 +462,37 @@ const Settings: React.FC = () => {
                 </FormControl>
 
                 <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+                  {MODALITIES.map((definition) => (
+                    <FormControlLabel
+                      key={definition.id}
+                      control={
+                        <Switch
+                          checked={Boolean(settings[definition.settingKey])}
+                          onChange={(e) => updateSettings({ [definition.settingKey]: e.target.checked })}
+                        />
+                      }
+                      label={`${definition.label} Stimuli (${definition.keyHint} key)`}
+                    />
+                  ))}
+                  <Typography variant="caption" color="text.secondary" sx={{ mb: 1 }}>
+                    {getModeName(getActiveModalities(settings).length)} • The second audio channel plays{' '}
+                    {getSecondAudioType(settings.audioType)} alongside the main audio
+                  </Typography>
                   <FormControlLabel
                     control={
                       <Switch
-                        checked={settings.showVisual}
-                        onChange={(e) => updateSettings({ showVisual: e.target.checked })}
-                      />
-                    }
-                    label="Visual Stimuli"
-                  />
-                  <FormControlLabel
-                    control={
-                      <Switch
-                        checked={settings.showAudio}
-                        onChange={(e) => updateSettings({ showAudio: e.target.checked })}
+                        checked={settings.arithmeticMode}
+                        onChange={(e) => updateSettings({ arithmeticMode: e.target.checked })}
                       />
                     }
-                    label="Audio Stimuli"
+                    label="Arithmetic N-Back (number keys + Enter)"
                   />
+                  {settings.arithmeticMode && (
+                    <Typography variant="caption" color="text.secondary" sx={{ mb: 1 }}>
+                      Numbers 1–8 are spoken and an operation is shown above the grid: type the N-back number
+                      combined with the current one (e.g. 5 back, 3 now, − → 2). Audio matching is replaced by the keypad
+                    </Typography>
+                  )}
                   <FormControlLabel
                     control={
                       <Switch
@@ -183,6 +502,11 @@ const Settings: React.FC = () => {
                     }
                     label="Auto-advance to next stimulus"
                   />
+                  {!settings.autoAdvance && (
+                    <Typography variant="caption" color="text.secondary">
+                      Self-paced: after each trial the game waits until you press Enter or click Next
+                    </Typography>
+                  )}
                 </Box>
               </Box>
             </Paper>
@@ -207,14 +531,80 @@ const Settings: React.FC = () => {
                   <Select
                     value={settings.audioType}
                     label="Audio Type"
-                    onChange={(e) => updateSettings({ audioType: e.target.value as 'tones' | 'letters' | 'numbers' })}
+                    onChange={(e) => updateSettings({ audioType: e.target.value as AudioType })}
                   >
-                    <MenuItem value="tones">Musical Tones</MenuItem>
-                    <MenuItem value="letters">Spoken Letters</MenuItem>
-                    <MenuItem value="numbers">Spoken Numbers</MenuItem>
+                    {Object.entries(AUDIO_TYPE_LABELS).map(([audioType, label]) => (
+                      <MenuItem key={audioType} value={audioType}>{label}</MenuItem>
+                    ))}
                   </Select>
                 </FormControl>
 
+                {settings.audioType === 'letters' && (
+                  <FormControl fullWidth sx={{ mb: 3 }}>
+                    <InputLabel>Letter Set</InputLabel>
+                    <Select
+                      value={settings.letterSet}
+                      label="Letter Set"
+                      onChange={(e) => updateSettings({ letterSet: e.target.value as LetterSet })}
+                    >
+                      {LETTER_SETS.map(set => (
+                        <MenuItem key={set.id} value={set.id}>{set.label}</MenuItem>
+                      ))}
+                    </Select>
+                  </FormControl>
+                )}
+
+                {settings.audioType === 'samples' && <SamplePackManager />}
+
+                {settings.audioType === 'words' && (
+                  <TextField
+                    fullWidth
+                    multiline
+                    minRows={2}
+                    label="Custom Words"
+                    helperText="Separate words with commas or new lines"
+                    value={settings.customWords.join(',')}
+                    onChange={(e) => updateSettings({ customWords: e.target.value.split(/[,\n]/) })}
+                    sx={{ mb: 3 }}
+                  />
+                )}
+
+                <Typography gutterBottom>
+                  Sounds: {settings.audioSoundCount}
+                  {getAudioSoundCount(settings) !== settings.audioSoundCount && ` (${getAudioSoundCount(settings)} used)`}
+                </Typography>
+                <Slider
+                  value={settings.audioSoundCount}
+                  onChange={(_, value) => updateSettings({ audioSoundCount: value as number })}
+                  min={MIN_AUDIO_SOUND_COUNT}
+                  max={MAX_AUDIO_SOUND_COUNT}
+                  step={1}
+                  marks={[
+                    { value: 8, label: '8' },
+                    { value: 16, label: '16' },
+                    { value: 25, label: '25' },
+                  ]}
+                  sx={{ mb: 1 }}
+                />
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: audioProblems.length > 0 ? 1 : 3 }}>
+                  <Typography variant="caption" color="text.secondary" sx={{ flex: 1 }}>
+                    More sounds make chance audio matches rarer; one sound per square keeps audio as hard as
+                    position on a {settings.gridSize}×{settings.gridSize} grid
+                  </Typography>
+                  <Button
+                    size="small"
+                    onClick={() => updateSettings({ audioSoundCount: Math.min(gridCellCount, MAX_AUDIO_SOUND_COUNT) })}
+                    disabled={settings.audioSoundCount === gridCellCount}
+                  >
+                    Match Grid ({gridCellCount})
+                  </Button>
+                </Box>
+                {audioProblems.length > 0 && (
+                  <Alert severity="warning" sx={{ mb: 3 }}>
+                    {audioProblems.map(problem => <div key={problem}>{problem}</div>)}
+                  </Alert>
+                )}
+
                 <Typography gutterBottom>Volume: {Math.round(settings.volume * 100)}%</Typography>
                 <Slider
                   value={settings.volume * 100}
@@ -259,6 +649,18 @@ const Settings: React.FC = () => {
               </Typography>
 
               <Box sx={{ mt: 3 }}>
+                <FormControl fullWidth sx={{ mb: 3 }}>
+                  <InputLabel>Timing Mode</InputLabel>
+                  <Select
+                    value={settings.timingMode}
+                    label="Timing Mode"
+                    onChange={(e) => updateSettings({ timingMode: e.target.value as TimingMode })}
+                  >
+                    <MenuItem value="extended">Extended (response window after stimulus)</MenuItem>
+                    <MenuItem value="classic">Classic (fixed trial length)</MenuItem>
+                  </Select>
+                </FormControl>
+
                 <Typography gutterBottom>
                   Stimulus Duration: {settings.stimulusDuration}ms
                 </Typography>
@@ -294,6 +696,164 @@ const Settings: React.FC = () => {
                   ]}
                   sx={{ mb: 3 }}
                 />
+
+                {settings.timingMode === 'classic' ? (
+                  <Alert severity="info">
+                    Each trial lasts {getResponseWindowDuration(settings)}ms (stimulus plus interval) and
+                    responses are accepted from the moment the stimulus appears.
+                  </Alert>
+                ) : (
+                  <>
+                    <Typography gutterBottom>
+                      Response Window: {settings.responseWindow}ms
+                    </Typography>
+                    <Slider
+                      value={settings.responseWindow}
+                      onChange={(_, value) => updateSettings({ responseWindow: value as number })}
+                      min={1000}
+                      max={5000}
+                      step={250}
+                      marks={[
+                        { value: 1000, label: '1s' },
+                        { value: 3000, label: '3s' },
+                        { value: 5000, label: '5s' },
+                      ]}
+                      sx={{ mb: 3 }}
+                    />
+
+                    <Typography gutterBottom>
+                      Feedback Pause: {settings.feedbackDuration}ms
+                    </Typography>
+                    <Slider
+                      value={settings.feedbackDuration}
+                      onChange={(_, value) => updateSettings({ feedbackDuration: value as number })}
+                      min={0}
+                      max={2000}
+                      step={100}
+                      marks={[
+                        { value: 0, label: '0' },
+                        { value: 500, label: '500ms' },
+                        { value: 1000, label: '1s' },
+                        { value: 2000, label: '2s' },
+                      ]}
+                      sx={{ mb: 3 }}
+                    />
+                  </>
+                )}
+              </Box>
+            </Paper>
+          </Grid>
+
+          {/* Level Progression Settings */}
+          <Grid item xs={12} md={6}>
+            <Paper
+              elevation={2}
+              sx={{
+                p: 3,
+                background: `linear-gradient(135deg, ${alpha(theme.palette.info.main, 0.05)} 0%, ${alpha(theme.palette.success.main, 0.05)} 100%)`,
+              }}
+            >
+              <Typography variant="h6" gutterBottom sx={{ fontWeight: 600 }}>
+                Level Progression
+              </Typography>
+
+              <Box sx={{ mt: 3 }}>
+                <FormControlLabel
+                  control={
+                    <Switch
+                      checked={settings.progression.enabled}
+                      onChange={(e) => updateProgression({ enabled: e.target.checked })}
+                    />
+                  }
+                  label="Adjust N automatically after each session"
+                  sx={{ mb: 2 }}
+                />
+
+                <Typography gutterBottom>
+                  Level up below {settings.progression.advanceErrorLimit} errors per modality
+                </Typography>
+                <Slider
+                  value={settings.progression.advanceErrorLimit}
+                  onChange={(_, value) => updateProgression({ advanceErrorLimit: value as number })}
+                  min={1}
+                  max={10}
+                  step={1}
+                  marks
+                  disabled={!settings.progression.enabled}
+                  sx={{ mb: 3 }}
+                />
+
+                <Typography gutterBottom>
+                  Level down above {settings.progression.fallbackErrorLimit} errors in a modality
+                </Typography>
+                <Slider
+                  value={settings.progression.fallbackErrorLimit}
+                  onChange={(_, value) => updateProgression({ fallbackErrorLimit: value as number })}
+                  min={settings.progression.advanceErrorLimit}
+                  max={20}
+                  step={1}
+                  disabled={!settings.progression.enabled}
+                  sx={{ mb: 3 }}
+                />
+
+                <Typography gutterBottom>
+                  Consecutive poor sessions before leveling down: {settings.progression.fallbackSessions}
+                </Typography>
+                <Slider
+                  value={settings.progression.fallbackSessions}
+                  onChange={(_, value) => updateProgression({ fallbackSessions: value as number })}
+                  min={1}
+                  max={5}
+                  step={1}
+                  marks
+                  disabled={!settings.progression.enabled}
+                />
+              </Box>
+            </Paper>
+          </Grid>
+
+          {/* Streak Settings */}
+          <Grid item xs={12} md={6}>
+            <Paper
+              elevation={2}
+              sx={{
+                p: 3,
+                background: `linear-gradient(135deg, ${alpha(theme.palette.warning.main, 0.05)} 0%, ${alpha(theme.palette.success.main, 0.05)} 100%)`,
+              }}
+            >
+              <Typography variant="h6" gutterBottom sx={{ fontWeight: 600 }}>
+                Streaks
+              </Typography>
+
+              <Box sx={{ mt: 3 }}>
+                <Typography gutterBottom>Freeze Days: {streakSettings.freezeDays}</Typography>
+                <Slider
+                  value={streakSettings.freezeDays}
+                  onChange={(_, value) => updateStreakSettings({ freezeDays: value as number })}
+                  min={0}
+                  max={MAX_FREEZE_DAYS}
+                  step={1}
+                  marks
+                  sx={{ mb: 1 }}
+                />
+                <Typography variant="caption" color="text.secondary" component="p" sx={{ mb: 3 }}>
+                  {streakSettings.freezeDays === 0
+                    ? 'Missing a day ends your streak'
+                    : `Up to ${streakSettings.freezeDays} missed day${streakSettings.freezeDays === 1 ? '' : 's'} in a row keep your streak alive without adding to it`}
+                </Typography>
+
+                <TextField
+                  fullWidth
+                  size="small"
+                  label="Timezone"
+                  placeholder={getDeviceTimeZone()}
+                  value={timeZoneInput}
+                  onChange={(e) => handleTimeZoneChange(e.target.value)}
+                  error={!timeZoneValid}
+                  helperText={timeZoneValid
+                    ? `Days end at midnight in ${resolveTimeZone(streakSettings.timeZone)}; leave empty to follow this device`
+                    : 'Unknown timezone; use a name such as Europe/Berlin or America/New_York'}
+                />
               </Box>
             </Paper>
           </Grid>
@@ -310,6 +870,9 @@ const Settings: React.FC = () => {
               <Typography variant="h6" gutterBottom sx={{ fontWeight: 600 }}>
                 Data Management
               </Typography>
+              <Typography variant="body2" color="text.secondary">
+                Applies to the profile {activeProfile.name}
+              </Typography>
 
               <Box sx={{ mt: 3, display: 'flex', flexDirection: 'column', gap: 2 }}>
                 <Button
@@ -318,7 +881,7 @@ const Settings: React.FC = () => {
                   onClick={handleExportStats}
                   fullWidth
                 >
-                  Export Statistics
+                  Export Profile
                 </Button>
 
                 <Button
@@ -327,7 +890,7 @@ const Settings: React.FC = () => {
                   onClick={() => setShowImportDialog(true)}
                   fullWidth
                 >
-                  Import Statistics
+                  Import Profile
                 </Button>
 
                 <Divider />
@@ -344,14 +907,104 @@ const Settings: React.FC = () => {
               </Box>
             </Paper>
           </Grid>
+
+          {/* Profiles */}
+          <Grid item xs={12} md={6}>
+            <Paper
+              elevation={2}
+              sx={{
+                p: 3,
+                background: `linear-gradient(135deg, ${alpha(theme.palette.info.main, 0.05)} 0%, ${alpha(theme.palette.secondary.main, 0.05)} 100%)`,
+              }}
+            >
+              <Typography variant="h6" gutterBottom sx={{ fontWeight: 600 }}>
+                Profiles
+              </Typography>
+              <Typography variant="body2" color="text.secondary">
+                Each profile keeps its own settings, history, achievements and level
+              </Typography>
+
+              <TextField
+                fullWidth
+                size="small"
+                label="Profile Name"
+                value={profileName}
+                onChange={(e) => setProfileName(e.target.value)}
+                onBlur={() => {
+                  renameProfile(activeProfile.id, profileName)
+                  setProfileName(profileName.trim() || activeProfile.name)
+                }}
+                inputProps={{ maxLength: MAX_PROFILE_NAME_LENGTH }}
+                sx={{ mt: 3 }}
+              />
+
+              <List dense sx={{ mt: 1 }}>
+                {profiles.map(profile => (
+                  <ListItem
+                    key={profile.id}
+                    divider
+                    sx={{ px: 0 }}
+                    secondaryAction={
+                      <Tooltip title={profiles.length > 1 ? 'Delete profile' : 'The only profile cannot be deleted'}>
+                        <span>
+                          <IconButton
+                            edge="end"
+                            size="small"
+                            onClick={() => setProfileToDelete(profile.id)}
+                            disabled={profiles.length <= 1 || !canSwitch}
+                          >
+                            <DeleteIcon fontSize="small" />
+                          </IconButton>
+                        </span>
+                      </Tooltip>
+                    }
+                  >
+                    <ListItemText
+                      primary={profile.name}
+                      secondary={`Created ${new Date(profile.createdAt).toLocaleDateString()}`}
+                    />
+                    {profile.id === activeProfile.id ? (
+                      <Chip label="Active" size="small" color="primary" sx={{ mr: 4 }} />
+                    ) : (
+                      <Button
+                        size="small"
+                        onClick={() => switchProfile(profile.id).catch(error => console.error('Failed to switch profile:', error))}
+                        disabled={!canSwitch}
+                        sx={{ mr: 3 }}
+                      >
+                        Switch
+                      </Button>
+                    )}
+                  </ListItem>
+                ))}
+              </List>
+            </Paper>
+          </Grid>
         </Grid>
 
+        {/* Delete Profile Confirmation Dialog */}
+        <Dialog open={profileToDelete !== null} onClose={() => setProfileToDelete(null)}>
+          <DialogTitle>Delete Profile</DialogTitle>
+          <DialogContent>
+            <Typography>
+              Delete the profile {profiles.find(profile => profile.id === profileToDelete)?.name}? Its settings,
+              session history and achievements are removed from this device. Export it first to keep a copy.
+            </Typography>
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={() => setProfileToDelete(null)}>Cancel</Button>
+            <Button onClick={handleDeleteProfile} color="error" variant="contained">
+              Delete Profile
+            </Button>
+          </DialogActions>
+        </Dialog>
+
         {/* Clear Data Confirmation Dialog */}
         <Dialog open={showClearDialog} onClose={() => setShowClearDialog(false)}>
           <DialogTitle>Clear All Data</DialogTitle>
           <DialogContent>
             <Typography>
-              Are you sure you want to clear all your statistics and achievements? 
+              Are you sure you want to clear all statistics and achievements of {activeProfile.name}? 
               This action cannot be undone.
             </Typography>
           </DialogContent>
@@ -364,11 +1017,11 @@ const Settings: React.FC = () => {
         </Dialog>
 
         {/* Import Data Dialog */}
-        <Dialog open={showImportDialog} onClose={() => setShowImportDialog(false)} maxWidth="sm" fullWidth>
-          <DialogTitle>Import Statistics</DialogTitle>
+        <Dialog open={showImportDialog} onClose={closeImportDialog} maxWidth="sm" fullWidth>
+          <DialogTitle>Import Profile</DialogTitle>
           <DialogContent>
             <Typography gutterBottom>
-              Paste your exported statistics data below:
+              Paste exported data below to import it into {activeProfile.name}:
             </Typography>
             <TextField
               multiline
@@ -379,6 +1032,70 @@ const Settings: React.FC = () => {
               placeholder="Paste your JSON data here..."
               sx={{ mt: 2 }}
             />
+            {importResult && importResult.errors.length > 0 && (
+              <Alert severity="error" sx={{ mt: 2 }}>
+                <Typography variant="body2" sx={{ fontWeight: 600 }}>
+                  This data can't be imported ({importResult.errors.length} problem{importResult.errors.length === 1 ? '' : 's'}):
+                </Typography>
+                <Box component="ul" sx={{ m: 0, pl: 2 }}>
+                  {importResult.errors.slice(0, MAX_SHOWN_IMPORT_ERRORS).map((error, index) => (
+                    <li key={index}>
+                      <Typography variant="body2">
+                        <Box component="code" sx={{ fontWeight: 600 }}>{error.path}</Box> {error.message}
+                      </Typography>
+                    </li>
+                  ))}
+                </Box>
+                {importResult.errors.length > MAX_SHOWN_IMPORT_ERRORS && (
+                  <Typography variant="body2">
+                    …and {importResult.errors.length - MAX_SHOWN_IMPORT_ERRORS} more
+                  </Typography>
+                )}
+              </Alert>
+            )}
+            {importResult?.data && importPreview && (
+              <Box sx={{ mt: 2 }}>
+                <Alert severity="info">
+                  {importPreview.sessions} session{importPreview.sessions === 1 ? '' : 's'}
+                  {importPreview.firstDate !== null && importPreview.lastDate !== null &&
+                    ` from ${new Date(importPreview.firstDate).toLocaleDateString()} to ${new Date(importPreview.lastDate).toLocaleDateString()}`}
+                  {' '}({importPreview.newSessions} new, {importPreview.duplicateSessions} already in this profile) •{' '}
+                  {importPreview.levelChanges} level changes • {importPreview.trainingDays} training days •{' '}
+                  {importPreview.trainingSessions} training plans • {importPreview.unlockedAchievements} unlocked achievements
+                  {importResult.data.version === 0 && ' • Exported before files were versioned'}
+                </Alert>
+                <RadioGroup
+                  value={importMode}
+                  onChange={(e) => setImportMode(e.target.value as StatsImportMode)}
+                  sx={{ mt: 1 }}
+                >
+                  <FormControlLabel
+                    value="merge"
+                    control={<Radio />}
+                    label={`Merge: add the ${importPreview.newSessions} new sessions to the ${stats.sessions.length} already here`}
+                  />
+                  <FormControlLabel
+                    value="replace"
+                    control={<Radio />}
+                    label={`Replace: delete the current history and keep only the ${importPreview.sessions} imported sessions`}
+                  />
+                </RadioGroup>
+                {importResult.data.settings && (
+                  <FormControlLabel
+                    control={
+                      <Checkbox
+                        checked={applyImportedSettings}
+                        onChange={(e) => setApplyImportedSettings(e.target.checked)}
+                      />
+                    }
+                    label="Also apply the game settings saved in this file"
+                  />
+                )}
+                <Typography variant="caption" color="text.secondary" component="p">
+                  Totals, streaks and achievements are recalculated from the resulting history
+                </Typography>
+              </Box>
+            )}
             {importError && (
               <Alert severity="error" sx={{ mt: 2 }}>
                 {importError}
@@ -386,13 +1103,13 @@ const Settings: React.FC = () => {
             )}
           </DialogContent>
           <DialogActions>
-            <Button onClick={() => setShowImportDialog(false)}>Cancel</Button>
+            <Button onClick={closeImportDialog}>Cancel</Button>
             <Button 
               onClick={handleImportStats} 
               variant="contained"
-              disabled={!importData.trim()}
+              disabled={!importResult?.data || !historyLoaded}
             >
-              Import
+              {importMode === 'merge' ? 'Merge' : 'Replace'}
             </Button>
           </DialogActions>
         </Dialog>
@@ -0,0 +1,215 @@
+import React, { useState } from 'react'
+import {
+  Box,
+  Paper,
+  Typography,
+  Grid,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  ToggleButton,
+  ToggleButtonGroup,
+  useTheme,
+  alpha,
+} from '@mui/material'
+import { Timeline as ChartIcon } from '@mui/icons-material'
+import { BarChart, LineChart } from '@mui/x-charts'
+import { AudioType, GameSession, GameSettings } from '../../types/game'
+import {
+  CHART_RANGES,
+  ChartFilters,
+  ChartRange,
+  DEFAULT_CHART_FILTERS,
+  filterChartSessions,
+  getChartFilterOptions,
+  getModalityTrends,
+  getSessionMeanDPrime,
+  getWeeklyPlayTime,
+} from '../../utils/progressCharts'
+import { calculateSessionScore, formatDetectionValue } from '../../utils/scoring'
+import { AUDIO_TYPE_LABELS } from '../../utils/audioAlphabet'
+import { getModalityLabel } from '../../utils/modalities'
+import { formatPercentage } from '../../utils/gameLogic'
+
+interface ProgressChartsProps {
+  sessions: GameSession[]
+  timeZone: string | null // Streak timezone; weeks start on its Mondays
+}
+
+type SessionMetric = 'accuracy' | 'dPrime'
+
+const CHART_HEIGHT = 260
+
+const formatDate = (date: Date): string => date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })
+
+// Day keys name a calendar day, so they are shown as that date wherever the device is
+const formatWeek = (day: string): string =>
+  new Date(`${day}T12:00:00Z`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' })
+
+const ProgressCharts: React.FC<ProgressChartsProps> = ({ sessions, timeZone }) => {
+  const theme = useTheme()
+  const [filters, setFilters] = useState<ChartFilters>(DEFAULT_CHART_FILTERS)
+  const [metric, setMetric] = useState<SessionMetric>('accuracy')
+
+  const options = getChartFilterOptions(sessions)
+  const filtered = filterChartSessions(sessions, filters)
+  const dates = filtered.map(session => new Date(session.date))
+  const modalityTrends = getModalityTrends(filtered)
+  const weeklyPlayTime = getWeeklyPlayTime(filtered, timeZone)
+
+  const updateFilters = (update: Partial<ChartFilters>) => setFilters(current => ({ ...current, ...update }))
+
+  // Sessions share one time axis so the charts line up
+  const timeAxis = [{ data: dates, scaleType: 'time' as const, valueFormatter: formatDate }]
+
+  return (
+    <Paper
+      elevation={2}
+      sx={{
+        p: 3,
+        background: `linear-gradient(135deg, ${alpha(theme.palette.info.main, 0.05)} 0%, ${alpha(theme.palette.primary.main, 0.05)} 100%)`,
+      }}
+    >
+      <Typography variant="h6" gutterBottom sx={{ fontWeight: 600, display: 'flex', alignItems: 'center', gap: 1 }}>
+        <ChartIcon color="info" />
+        Progress Charts
+      </Typography>
+
+      <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap', mt: 2, mb: 3 }}>
+        <FormControl size="small" sx={{ minWidth: 160 }}>
+          <InputLabel>Date Range</InputLabel>
+          <Select
+            value={filters.range}
+            label="Date Range"
+            onChange={(e) => updateFilters({ range: e.target.value as ChartRange })}
+          >
+            {CHART_RANGES.map(range => (
+              <MenuItem key={range.id} value={range.id}>{range.label}</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <FormControl size="small" sx={{ minWidth: 140 }}>
+          <InputLabel>Grid Size</InputLabel>
+          <Select
+            value={filters.gridSize}
+            label="Grid Size"
+            onChange={(e) => updateFilters({ gridSize: e.target.value as GameSettings['gridSize'] | 'all' })}
+          >
+            <MenuItem value="all">All grids</MenuItem>
+            {options.gridSizes.map(gridSize => (
+              <MenuItem key={gridSize} value={gridSize}>{gridSize}×{gridSize}</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <FormControl size="small" sx={{ minWidth: 160 }}>
+          <InputLabel>Audio Type</InputLabel>
+          <Select
+            value={filters.audioType}
+            label="Audio Type"
+            onChange={(e) => updateFilters({ audioType: e.target.value as AudioType | 'all' })}
+          >
+            <MenuItem value="all">All audio</MenuItem>
+            {options.audioTypes.map(audioType => (
+              <MenuItem key={audioType} value={audioType}>{AUDIO_TYPE_LABELS[audioType]}</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <Typography variant="body2" color="text.secondary" sx={{ alignSelf: 'center' }}>
+          {filtered.length} of {sessions.length} sessions
+        </Typography>
+      </Box>
+
+      {filtered.length === 0 ? (
+        <Typography color="text.secondary" sx={{ textAlign: 'center', py: 4 }}>
+          No sessions match these filters.
+        </Typography>
+      ) : (
+        <Grid container spacing={3}>
+          <Grid item xs={12} md={6}>
+            <Typography variant="subtitle2" sx={{ fontWeight: 600 }}>
+              N-Level Over Time
+            </Typography>
+            <LineChart
+              height={CHART_HEIGHT}
+              xAxis={timeAxis}
+              yAxis={[{ min: 1, tickMinStep: 1 }]}
+              series={[{
+                data: filtered.map(session => session.nLevel),
+                label: 'N-Level',
+                curve: 'stepAfter',
+                color: theme.palette.primary.main,
+                valueFormatter: (value) => `${value}-Back`,
+              }]}
+            />
+          </Grid>
+
+          <Grid item xs={12} md={6}>
+            <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+              <Typography variant="subtitle2" sx={{ fontWeight: 600 }}>
+                {metric === 'accuracy' ? 'Accuracy per Session' : 'Mean d′ per Session'}
+              </Typography>
+              <ToggleButtonGroup
+                size="small"
+                exclusive
+                value={metric}
+                onChange={(_, value: SessionMetric | null) => value && setMetric(value)}
+              >
+                <ToggleButton value="accuracy">Accuracy</ToggleButton>
+                <ToggleButton value="dPrime">d′</ToggleButton>
+              </ToggleButtonGroup>
+            </Box>
+            <LineChart
+              height={CHART_HEIGHT}
+              xAxis={timeAxis}
+              yAxis={metric === 'accuracy' ? [{ min: 0, max: 100 }] : [{}]}
+              series={[{
+                data: filtered.map(session => metric === 'accuracy' ? calculateSessionScore(session.score) : getSessionMeanDPrime(session)),
+                label: metric === 'accuracy' ? 'Accuracy' : 'd′',
+                color: theme.palette.success.main,
+                valueFormatter: (value) => metric === 'accuracy' ? formatPercentage(value) : formatDetectionValue(value),
+              }]}
+            />
+          </Grid>
+
+          <Grid item xs={12} md={6}>
+            <Typography variant="subtitle2" sx={{ fontWeight: 600 }}>
+              d′ by Modality
+            </Typography>
+            <LineChart
+              height={CHART_HEIGHT}
+              xAxis={timeAxis}
+              series={modalityTrends.map(trend => ({
+                data: trend.dPrime,
+                label: getModalityLabel(trend.modality),
+                connectNulls: true,
+                valueFormatter: (value: number | null) => value === null ? '—' : formatDetectionValue(value),
+              }))}
+            />
+          </Grid>
+
+          <Grid item xs={12} md={6}>
+            <Typography variant="subtitle2" sx={{ fontWeight: 600 }}>
+              Play Time per Week
+            </Typography>
+            <BarChart
+              height={CHART_HEIGHT}
+              xAxis={[{
+                data: weeklyPlayTime.map(week => formatWeek(week.weekStart)),
+                scaleType: 'band',
+                label: 'Week starting',
+              }]}
+              series={[{
+                data: weeklyPlayTime.map(week => week.minutes),
+                label: 'Minutes',
+                color: theme.palette.warning.main,
+              }]}
+            />
+          </Grid>
+        </Grid>
+      )}
+    </Paper>
+  )
+}
+
+export default ProgressCharts
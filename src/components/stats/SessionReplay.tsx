@@ -0,0 +1,365 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react'
+import {
+  Box,
+  Paper,
+  Typography,
+  Chip,
+  Slider,
+  IconButton,
+  Tooltip,
+  ToggleButton,
+  ToggleButtonGroup,
+  FormControlLabel,
+  Switch,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  alpha,
+  useTheme,
+} from '@mui/material'
+import {
+  PlayArrow as PlayIcon,
+  Pause as PauseIcon,
+  SkipPrevious as PreviousIcon,
+  SkipNext as NextIcon,
+} from '@mui/icons-material'
+import { GameSequence, GameSession, GameSettings, ResponseType, TrialRecord } from '../../types/game'
+import { formatNBackLabel, formatTrialType, getActiveModalities, getResponseWindowDuration, getTargetIndexFunction } from '../../utils/gameLogic'
+import { getTrialOutcome, TrialOutcome } from '../../utils/scoring'
+import { playAudioTone } from '../../utils/audioManager'
+import { getAudioAlphabet } from '../../utils/audioAlphabet'
+import {
+  STIMULUS_COLOR_NAMES,
+  STIMULUS_SHAPES,
+  getModalityLabel,
+  getSecondAudioType,
+  getVisualStimulus,
+  hasVisualModality,
+} from '../../utils/modalities'
+import { formatTrialCue, getOperationSymbol, getSpokenNumberValue } from '../../utils/arithmetic'
+import StimulusGrid from '../game/StimulusGrid'
+
+interface SessionReplayProps {
+  session: GameSession | null
+  onClose: () => void
+}
+
+const replaySpeeds = [1, 2, 4]
+
+const outcomeDisplay: Record<TrialOutcome, { label: string; color: 'success' | 'error' | 'warning' | 'default' }> = {
+  hit: { label: 'Hit', color: 'success' },
+  falseAlarm: { label: 'False alarm', color: 'error' },
+  miss: { label: 'Miss', color: 'warning' },
+  correctRejection: { label: 'Correct rejection', color: 'default' },
+}
+
+const getAudioLabel = (audioIndex: number, audioType: GameSettings['audioType'], settings: GameSettings): string =>
+  getAudioAlphabet(audioType, settings)[audioIndex] ?? `#${audioIndex}`
+
+const getStimulusLabel = (stimulus: GameSequence, modality: ResponseType, settings: GameSettings): string => {
+  const value = stimulus[modality]
+  if (value === undefined) return '—'
+
+  switch (modality) {
+    case 'position':
+      return `Square ${value + 1}`
+    case 'color':
+      return STIMULUS_COLOR_NAMES[value] ?? `#${value}`
+    case 'shape':
+      return STIMULUS_SHAPES[value]?.name ?? `#${value}`
+    case 'audio':
+      return getAudioLabel(value, settings.arithmeticMode ? 'numbers' : settings.audioType, settings)
+    case 'audio2':
+      return getAudioLabel(value, getSecondAudioType(settings.audioType), settings)
+  }
+}
+
+/**
+ * Original trial length, taken from the gap to the next onset when it was recorded
+ * Self-paced pauses are skipped, and the gap is capped at the longest trial the session's timing
+ * allows so time spent paused or on a break does not stall the replay
+ */
+const getTrialDuration = (trials: TrialRecord[], index: number, settings: GameSettings): number => {
+  const longestTrial = settings.timingMode === 'classic'
+    ? getResponseWindowDuration(settings)
+    : settings.stimulusDuration + Math.max(settings.responseWindow + settings.feedbackDuration, settings.interstimulusInterval)
+  const next = trials[index + 1]
+  if (next && next.onset > trials[index].onset) {
+    return Math.min(next.onset - trials[index].onset - (trials[index].selfPacedInterval ?? 0), longestTrial)
+  }
+  return settings.stimulusDuration + settings.interstimulusInterval
+}
+
+const SessionReplay: React.FC<SessionReplayProps> = ({ session, onClose }) => {
+  const theme = useTheme()
+  const [trialIndex, setTrialIndex] = useState(0)
+  const [isReplaying, setIsReplaying] = useState(false)
+  const [speed, setSpeed] = useState(1)
+  const [playSound, setPlaySound] = useState(false)
+  // Read by the playback effect without being a dependency, so toggling sound does not restart the trial
+  const playSoundRef = useRef(playSound)
+  const [showStimulus, setShowStimulus] = useState(false)
+
+  const trials = useMemo(
+    () => [...(session?.trials ?? [])].sort((a, b) => a.stimulusIndex - b.stimulusIndex),
+    [session]
+  )
+  const trial = trials[trialIndex]
+  const modalities = session ? getActiveModalities(session.settings) : []
+  const visualStimulus = session && trial && showStimulus && hasVisualModality(modalities)
+    ? getVisualStimulus(trial.stimulus, modalities, session.settings.gridSize)
+    : null
+
+  // Start from the beginning whenever a different session is opened
+  useEffect(() => {
+    setTrialIndex(0)
+    setIsReplaying(false)
+  }, [session])
+
+  // Present the current trial and, while replaying, advance after its original duration
+  useEffect(() => {
+    if (!session || !trial) return
+
+    setShowStimulus(true)
+    if (isReplaying && playSoundRef.current) {
+      if (session.settings.showAudio || session.settings.arithmeticMode) {
+        playAudioTone(
+          trial.stimulus.audio,
+          session.settings.arithmeticMode ? 'numbers' : session.settings.audioType,
+          session.settings.stimulusDuration / speed,
+          session.settings.volume,
+          session.settings
+        )
+      }
+      if (session.settings.showSecondAudio && trial.stimulus.audio2 !== undefined) {
+        playAudioTone(
+          trial.stimulus.audio2,
+          getSecondAudioType(session.settings.audioType),
+          session.settings.stimulusDuration / speed,
+          session.settings.volume,
+          session.settings
+        )
+      }
+    }
+
+    const hideTimer = setTimeout(() => setShowStimulus(false), session.settings.stimulusDuration / speed)
+    const advanceTimer = isReplaying
+      ? setTimeout(() => {
+        if (trialIndex + 1 < trials.length) {
+          setTrialIndex(trialIndex + 1)
+        } else {
+          setIsReplaying(false)
+        }
+      }, getTrialDuration(trials, trialIndex, session.settings) / speed)
+      : undefined
+
+    return () => {
+      clearTimeout(hideTimer)
+      clearTimeout(advanceTimer)
+    }
+  }, [session, trial, trials, trialIndex, isReplaying, speed])
+
+  // Playing from the last trial starts the session over
+  const togglePlayback = () => {
+    if (!isReplaying && trialIndex >= trials.length - 1) setTrialIndex(0)
+    setIsReplaying(!isReplaying)
+  }
+
+  const toggleSound = (enabled: boolean) => {
+    playSoundRef.current = enabled
+    setPlaySound(enabled)
+  }
+
+  const renderModalityRow = (modality: ResponseType) => {
+    if (!session || !trial) return null
+
+    const response = trial.responses[modality]
+    const isScored = trial.stimulusIndex >= session.nLevel
+    const outcome = outcomeDisplay[getTrialOutcome(trial, modality)]
+    const stimulusLabel = getStimulusLabel(trial.stimulus, modality, session.settings)
+    const trialType = trial.trialTypes?.[modality]
+
+    return (
+      <Paper
+        key={modality}
+        elevation={1}
+        sx={{
+          p: 1.5,
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          gap: 1,
+          flexWrap: 'wrap',
+          background: alpha(theme.palette.background.paper, 0.7),
+        }}
+      >
+        <Box>
+          <Typography variant="subtitle2" sx={{ fontWeight: 600 }}>
+            {getModalityLabel(modality)}: {stimulusLabel}
+          </Typography>
+          <Typography variant="caption" color="text.secondary">
+            {isScored
+              ? `Correct answer: ${trial.targets[modality] ? 'Match' : 'No match'}` +
+                (trialType && trialType !== 'target' && trialType !== 'neutral' ? ` (${formatTrialType(trialType)})` : '') +
+                ' • ' +
+                (response ? `Pressed after ${Math.round(response.reactionTime)}ms` : 'No press')
+              : 'Warm-up stimulus, no response expected'}
+          </Typography>
+        </Box>
+        {isScored && (
+          <Chip label={outcome.label} color={outcome.color} size="small" sx={{ fontWeight: 600 }} />
+        )}
+      </Paper>
+    )
+  }
+
+  const renderArithmeticRow = () => {
+    const arithmetic = trial?.arithmetic
+    if (!arithmetic || !trial.stimulus.operation) return null
+
+    return (
+      <Paper
+        elevation={1}
+        sx={{
+          p: 1.5,
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          gap: 1,
+          flexWrap: 'wrap',
+          background: alpha(theme.palette.background.paper, 0.7),
+        }}
+      >
+        <Box>
+          <Typography variant="subtitle2" sx={{ fontWeight: 600 }}>
+            Arithmetic: heard {getSpokenNumberValue(trial.stimulus.audio)} • {getOperationSymbol(trial.stimulus.operation)}
+          </Typography>
+          <Typography variant="caption" color="text.secondary">
+            Correct answer: {arithmetic.expected} • {arithmetic.answer !== null
+              ? `Typed ${arithmetic.answer}${arithmetic.reactionTime !== undefined ? ` after ${Math.round(arithmetic.reactionTime)}ms` : ''}`
+              : 'No answer'}
+          </Typography>
+        </Box>
+        <Chip
+          label={arithmetic.correct ? 'Correct' : arithmetic.answer !== null ? 'Wrong' : 'Unanswered'}
+          color={arithmetic.correct ? 'success' : arithmetic.answer !== null ? 'error' : 'warning'}
+          size="small"
+          sx={{ fontWeight: 600 }}
+        />
+      </Paper>
+    )
+  }
+
+  return (
+    <Dialog open={session !== null} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>
+        Session Replay
+        {session && (
+          <Typography variant="body2" color="text.secondary">
+            {formatNBackLabel(session.settings, session.nLevel)} • {new Date(session.date).toLocaleString()}
+            {session.seed !== undefined && ` • Seed ${session.seed}`}
+          </Typography>
+        )}
+      </DialogTitle>
+      <DialogContent>
+        {session && trial ? (
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+            <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+              <Chip label={`Trial ${trialIndex + 1} of ${trials.length}`} color="primary" sx={{ fontWeight: 600 }} />
+              <Box sx={{ textAlign: 'right' }}>
+                {trial.stimulusIndex >= session.nLevel && (
+                  <Typography variant="caption" color="text.secondary" display="block">
+                    Compared with trial {getTargetIndexFunction(session.settings.nBackMode)(trial.stimulusIndex, session.nLevel, trial.stimulus.nBack) + 1}
+                    {trial.stimulus.nBack !== undefined && ` (${trial.stimulus.nBack}-back cue)`}
+                  </Typography>
+                )}
+                {trial.selfPacedInterval !== undefined && (
+                  <Typography variant="caption" color="text.secondary" display="block">
+                    Paused {(trial.selfPacedInterval / 1000).toFixed(1)}s before continuing
+                  </Typography>
+                )}
+              </Box>
+            </Box>
+
+            <StimulusGrid
+              gridSize={session.settings.gridSize}
+              activePosition={visualStimulus?.position ?? null}
+              activeColor={visualStimulus?.color}
+              activeShape={visualStimulus?.shape}
+              cue={formatTrialCue(trial.stimulus)}
+            />
+
+            <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+              {modalities.map(renderModalityRow)}
+              {renderArithmeticRow()}
+            </Box>
+
+            <Slider
+              value={trialIndex}
+              onChange={(_, value) => setTrialIndex(value as number)}
+              min={0}
+              max={Math.max(0, trials.length - 1)}
+              step={1}
+            />
+
+            <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', flexWrap: 'wrap', gap: 1 }}>
+              <Box>
+                <Tooltip title="Previous trial">
+                  <span>
+                    <IconButton onClick={() => setTrialIndex(Math.max(0, trialIndex - 1))} disabled={trialIndex === 0}>
+                      <PreviousIcon />
+                    </IconButton>
+                  </span>
+                </Tooltip>
+                <Tooltip title={isReplaying ? 'Pause' : 'Play'}>
+                  <IconButton color="primary" onClick={togglePlayback}>
+                    {isReplaying ? <PauseIcon /> : <PlayIcon />}
+                  </IconButton>
+                </Tooltip>
+                <Tooltip title="Next trial">
+                  <span>
+                    <IconButton
+                      onClick={() => setTrialIndex(Math.min(trials.length - 1, trialIndex + 1))}
+                      disabled={trialIndex >= trials.length - 1}
+                    >
+                      <NextIcon />
+                    </IconButton>
+                  </span>
+                </Tooltip>
+              </Box>
+
+              <ToggleButtonGroup
+                value={speed}
+                exclusive
+                size="small"
+                onChange={(_, value) => value && setSpeed(value)}
+              >
+                {replaySpeeds.map((value) => (
+                  <ToggleButton key={value} value={value}>
+                    {value}×
+                  </ToggleButton>
+                ))}
+              </ToggleButtonGroup>
+
+              <FormControlLabel
+                control={<Switch checked={playSound} onChange={(e) => toggleSound(e.target.checked)} />}
+                label="Sound"
+              />
+            </Box>
+          </Box>
+        ) : (
+          <Typography color="text.secondary" sx={{ textAlign: 'center', py: 4 }}>
+            This session was recorded without a trial log and cannot be replayed.
+          </Typography>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
+
+export default SessionReplay
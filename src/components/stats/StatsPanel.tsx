@@ -1,4 +1,4 @@
-import React from 'react'
+import React, { useState } from 'react'
 import {
   Box,
   Paper,
@@ -16,6 +16,10 @@ import {
   useTheme,
   alpha,
   Fade,
+  IconButton,
+  Tooltip,
+  Snackbar,
+  Alert,
 } from '@mui/material'
 import {
   TrendingUp as TrendIcon,
@@ -23,16 +27,54 @@ import {
   AccessTime as TimeIcon,
   Psychology as BrainIcon,
   Whatshot as StreakIcon,
+  Replay as ReplayIcon,
+  Casino as SeedIcon,
 } from '@mui/icons-material'
 import { useStatsStore } from '../../stores/statsStore'
-import { formatDuration, formatPercentage, getDifficultyLevel } from '../../utils/gameLogic'
+import { useGameStore } from '../../stores/gameStore'
+import { calculateAccuracy, formatDuration, formatPercentage, getDifficultyLevel, getActiveModalities, getSequenceSettings, formatNBackLabel } from '../../utils/gameLogic'
+import { calculateLureFalseAlarms, calculateModalityDetection, combineLureFalseAlarms, formatDetectionValue } from '../../utils/scoring'
+import { MODALITIES, getModalityLabel } from '../../utils/modalities'
+import { GameSession } from '../../types/game'
+import { calculateStreaks } from '../../utils/trainingCalendar'
+import SessionReplay from './SessionReplay'
+import ProgressCharts from './ProgressCharts'
+import TrainingHeatmap from './TrainingHeatmap'
 
 const StatsPanel: React.FC = () => {
-  const { stats, achievements } = useStatsStore()
+  const { stats, achievements, levelChanges, trainingDays, trainingSessions, streakSettings, historyLoaded } = useStatsStore()
   const theme = useTheme()
+  const { updateSettings, queueSeed } = useGameStore()
+  const [replaySession, setReplaySession] = useState<GameSession | null>(null)
+  const [queuedSeed, setQueuedSeed] = useState<number | null>(null)
+
+  // Streaks are recounted on every render, so a missed day shows up without playing again;
+  // like the stored streak, only completed sessions count
+  const streaks = calculateStreaks(
+    stats.sessions.filter(session => session.completed).map(session => session.date),
+    streakSettings
+  )
 
   const unlockedAchievements = achievements.filter(a => a.unlocked)
   const lockedAchievements = achievements.filter(a => !a.unlocked)
+  const recentSessions = [...stats.sessions].sort((a, b) => b.date - a.date).slice(0, 10)
+  const recentTrainingDays = [...trainingDays].sort((a, b) => b.date - a.date).slice(0, 5)
+  const recentTrainingSessions = [...trainingSessions].sort((a, b) => b.date - a.date).slice(0, 5)
+
+  // Lure resistance over every session whose trials were tagged
+  const taggedTrials = stats.sessions.flatMap(session => session.trials ?? []).filter(trial => trial.trialTypes)
+  const lureRates = calculateLureFalseAlarms(taggedTrials)
+  const lureModalities = MODALITIES
+    .map(definition => ({ modality: definition.id, rates: calculateLureFalseAlarms(taggedTrials, definition.id) }))
+    .filter(({ rates }) => rates.nMinus1Lure.trials + rates.nPlus1Lure.trials + rates.neutral.trials > 0)
+
+  // Re-running a seed needs the level and sequence settings it was generated with
+  const handlePlaySeed = (session: GameSession) => {
+    if (session.seed === undefined) return
+    updateSettings({ ...getSequenceSettings(session.settings), nLevel: session.nLevel })
+    queueSeed(session.seed)
+    setQueuedSeed(session.seed)
+  }
 
   return (
     <Fade in={true}>
@@ -94,7 +136,7 @@ const StatsPanel: React.FC = () => {
               <CardContent sx={{ textAlign: 'center' }}>
                 <StreakIcon sx={{ fontSize: 40, mb: 1 }} />
                 <Typography variant="h4" sx={{ fontWeight: 600 }}>
-                  {stats.currentStreak}
+                  {streaks.currentStreak}
                 </Typography>
                 <Typography variant="body2" sx={{ opacity: 0.9 }}>
                   Day Streak
@@ -281,7 +323,7 @@ const StatsPanel: React.FC = () => {
                 <Grid item xs={12} sm={6} md={3}>
                   <Box sx={{ textAlign: 'center' }}>
                     <Typography variant="h5" color="warning.main" sx={{ fontWeight: 600 }}>
-                      {stats.longestStreak}
+                      {streaks.longestStreak}
                     </Typography>
                     <Typography variant="body2" color="text.secondary">
                       Longest Streak
@@ -292,7 +334,7 @@ const StatsPanel: React.FC = () => {
                 <Grid item xs={12} sm={6} md={3}>
                   <Box sx={{ textAlign: 'center' }}>
                     <Typography variant="h5" color="success.main" sx={{ fontWeight: 600 }}>
-                      {stats.sessions.length > 0 ? Math.max(...Object.keys(stats.nLevelProgress).map(Number)) : 0}
+                      {stats.totalGamesPlayed > 0 ? Math.max(...Object.keys(stats.nLevelProgress).map(Number)) : 0}
                     </Typography>
                     <Typography variant="body2" color="text.secondary">
                       Highest N-Level
@@ -303,7 +345,7 @@ const StatsPanel: React.FC = () => {
                 <Grid item xs={12} sm={6} md={3}>
                   <Box sx={{ textAlign: 'center' }}>
                     <Typography variant="h5" color="secondary.main" sx={{ fontWeight: 600 }}>
-                      {stats.sessions.filter(s => s.completed).length}
+                      {stats.totalGamesPlayed}
                     </Typography>
                     <Typography variant="body2" color="text.secondary">
                       Completed Games
@@ -314,6 +356,292 @@ const StatsPanel: React.FC = () => {
             </Paper>
           </Grid>
         </Grid>
+
+        {/* Training Calendar */}
+        <Grid container spacing={3} sx={{ mt: 1 }}>
+          <Grid item xs={12}>
+            <TrainingHeatmap sessions={stats.sessions} streakSettings={streakSettings} streaks={streaks} />
+          </Grid>
+        </Grid>
+
+        {/* Progress Charts */}
+        {stats.sessions.length > 0 && (
+          <Grid container spacing={3} sx={{ mt: 1 }}>
+            <Grid item xs={12}>
+              <ProgressCharts sessions={stats.sessions} timeZone={streakSettings.timeZone} />
+            </Grid>
+          </Grid>
+        )}
+
+        {/* Lure Resistance */}
+        {combineLureFalseAlarms(lureRates).trials > 0 && (
+          <Grid container spacing={3} sx={{ mt: 1 }}>
+            <Grid item xs={12}>
+              <Paper
+                elevation={1}
+                sx={{
+                  p: 3,
+                  background: alpha(theme.palette.background.paper, 0.7),
+                }}
+              >
+                <Typography variant="h6" gutterBottom sx={{ fontWeight: 600 }}>
+                  Lure Resistance
+                </Typography>
+                <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                  False alarms on non-matching trials that repeat the stimulus one step nearer (N-1) or farther back (N+1)
+                  than the target, compared with neutral trials. Lower is better.
+                </Typography>
+
+                <Grid container spacing={3}>
+                  {([
+                    ['nMinus1Lure', 'N-1 Lure False Alarms', 'error.main'],
+                    ['nPlus1Lure', 'N+1 Lure False Alarms', 'warning.main'],
+                    ['neutral', 'Neutral False Alarms', 'success.main'],
+                  ] as const).map(([trialType, label, color]) => (
+                    <Grid item xs={12} sm={4} key={trialType}>
+                      <Box sx={{ textAlign: 'center' }}>
+                        <Typography variant="h5" color={color} sx={{ fontWeight: 600 }}>
+                          {formatPercentage(lureRates[trialType].rate * 100)}
+                        </Typography>
+                        <Typography variant="body2" color="text.secondary">
+                          {label} ({lureRates[trialType].falseAlarms}/{lureRates[trialType].trials})
+                        </Typography>
+                      </Box>
+                    </Grid>
+                  ))}
+                </Grid>
+
+                <List dense sx={{ mt: 1 }}>
+                  {lureModalities.map(({ modality, rates }) => (
+                    <ListItem key={modality} sx={{ px: 0 }}>
+                      <ListItemText
+                        primary={getModalityLabel(modality)}
+                        secondary={`N-1 ${formatPercentage(rates.nMinus1Lure.rate * 100, 0)} of ${rates.nMinus1Lure.trials} • N+1 ${formatPercentage(rates.nPlus1Lure.rate * 100, 0)} of ${rates.nPlus1Lure.trials} • Neutral ${formatPercentage(rates.neutral.rate * 100, 0)} of ${rates.neutral.trials}`}
+                        primaryTypographyProps={{ fontWeight: 600 }}
+                      />
+                    </ListItem>
+                  ))}
+                </List>
+              </Paper>
+            </Grid>
+          </Grid>
+        )}
+
+        {/* Level Change Log */}
+        {levelChanges.length > 0 && (
+          <Grid container spacing={3} sx={{ mt: 1 }}>
+            <Grid item xs={12}>
+              <Paper
+                elevation={1}
+                sx={{
+                  p: 3,
+                  background: alpha(theme.palette.background.paper, 0.7),
+                }}
+              >
+                <Typography variant="h6" gutterBottom sx={{ fontWeight: 600 }}>
+                  Level Changes
+                </Typography>
+
+                <List dense>
+                  {[...levelChanges].reverse().slice(0, 10).map((change) => (
+                    <ListItem key={`${change.sessionId}-${change.date}`} sx={{ px: 0 }}>
+                      <ListItemIcon>
+                        <Chip
+                          label={`${change.fromLevel} → ${change.toLevel}`}
+                          size="small"
+                          color={change.toLevel > change.fromLevel ? 'success' : 'warning'}
+                          sx={{ fontWeight: 600 }}
+                        />
+                      </ListItemIcon>
+                      <ListItemText
+                        primary={new Date(change.date).toLocaleString()}
+                        secondary={change.reason}
+                      />
+                    </ListItem>
+                  ))}
+                </List>
+              </Paper>
+            </Grid>
+          </Grid>
+        )}
+
+        {/* Timed Training Days */}
+        {recentTrainingDays.length > 0 && (
+          <Grid container spacing={3} sx={{ mt: 1 }}>
+            <Grid item xs={12}>
+              <Paper
+                elevation={1}
+                sx={{
+                  p: 3,
+                  background: alpha(theme.palette.background.paper, 0.7),
+                }}
+              >
+                <Typography variant="h6" gutterBottom sx={{ fontWeight: 600 }}>
+                  Training Days
+                </Typography>
+                <List dense>
+                  {recentTrainingDays.map((day) => {
+                    const blocks = stats.sessions.filter(session => day.sessionIds.includes(session.id))
+                    return (
+                      <ListItem key={day.id} sx={{ px: 0 }} divider>
+                        <ListItemIcon>
+                          <Chip
+                            label={day.completed ? 'Complete' : 'Partial'}
+                            size="small"
+                            color={day.completed ? 'success' : 'default'}
+                            sx={{ fontWeight: 600 }}
+                          />
+                        </ListItemIcon>
+                        <ListItemText
+                          primary={`${new Date(day.date).toLocaleDateString()} • ${formatDuration(day.playTime)} of ${formatDuration(day.targetDuration)}`}
+                          secondary={`${day.sessionIds.length} blocks • ${blocks.map(block => formatNBackLabel(block.settings, block.nLevel)).join(', ')}`}
+                          primaryTypographyProps={{ fontWeight: 600 }}
+                        />
+                      </ListItem>
+                    )
+                  })}
+                </List>
+              </Paper>
+            </Grid>
+          </Grid>
+        )}
+
+        {/* Training Plans */}
+        {recentTrainingSessions.length > 0 && (
+          <Grid container spacing={3} sx={{ mt: 1 }}>
+            <Grid item xs={12}>
+              <Paper
+                elevation={1}
+                sx={{
+                  p: 3,
+                  background: alpha(theme.palette.background.paper, 0.7),
+                }}
+              >
+                <Typography variant="h6" gutterBottom sx={{ fontWeight: 600 }}>
+                  Training Sessions
+                </Typography>
+                <List dense>
+                  {recentTrainingSessions.map((plan) => {
+                    const blocks = plan.sessionIds
+                      .map(id => stats.sessions.find(session => session.id === id))
+                      .filter((block): block is GameSession => block !== undefined)
+                    return (
+                      <ListItem key={plan.id} sx={{ px: 0, flexWrap: 'wrap' }} divider>
+                        <ListItemIcon>
+                          <Chip
+                            label={plan.completed ? 'Complete' : 'Partial'}
+                            size="small"
+                            color={plan.completed ? 'success' : 'default'}
+                            sx={{ fontWeight: 600 }}
+                          />
+                        </ListItemIcon>
+                        <ListItemText
+                          primary={`${new Date(plan.date).toLocaleDateString()} • ${plan.sessionIds.length} of ${plan.plannedBlocks} blocks`}
+                          secondary={`N trajectory: ${plan.levels.join(' → ')}`}
+                          primaryTypographyProps={{ fontWeight: 600 }}
+                        />
+                        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, width: '100%', mt: 1 }}>
+                          {blocks.map((block, index) => {
+                            const { score } = block
+                            const decisions = score.totalCorrect + score.totalIncorrect + score.totalMissed + score.totalCorrectRejections
+                            const accuracy = calculateAccuracy(score.totalCorrect, score.totalIncorrect, score.totalMissed, decisions)
+                            return (
+                              <Chip
+                                key={block.id}
+                                label={`${index + 1}: ${block.nLevel}-Back • ${formatPercentage(accuracy, 0)}`}
+                                size="small"
+                                variant="outlined"
+                                onClick={() => setReplaySession(block)}
+                              />
+                            )
+                          })}
+                        </Box>
+                      </ListItem>
+                    )
+                  })}
+                </List>
+              </Paper>
+            </Grid>
+          </Grid>
+        )}
+
+        {/* Session History */}
+        <Grid container spacing={3} sx={{ mt: 1 }}>
+          <Grid item xs={12}>
+            <Paper
+              elevation={1}
+              sx={{
+                p: 3,
+                background: alpha(theme.palette.background.paper, 0.7),
+              }}
+            >
+              <Typography variant="h6" gutterBottom sx={{ fontWeight: 600 }}>
+                Recent Sessions
+              </Typography>
+
+              {recentSessions.length === 0 ? (
+                <Typography color="text.secondary" sx={{ textAlign: 'center', py: 4 }}>
+                  {historyLoaded ? 'No sessions recorded yet.' : 'Loading session history…'}
+                </Typography>
+              ) : (
+                <List dense>
+                  {recentSessions.map((session) => (
+                    <ListItem
+                      key={session.id}
+                      sx={{ px: 0 }}
+                      divider
+                      secondaryAction={
+                        <Box>
+                          <Tooltip title={session.seed !== undefined ? `Play seed ${session.seed} again` : 'No seed recorded'}>
+                            <span>
+                              <IconButton
+                                onClick={() => handlePlaySeed(session)}
+                                disabled={session.seed === undefined}
+                              >
+                                <SeedIcon />
+                              </IconButton>
+                            </span>
+                          </Tooltip>
+                          <Tooltip title={session.trials?.length ? 'Replay session' : 'No trial log recorded'}>
+                            <span>
+                              <IconButton
+                                edge="end"
+                                onClick={() => setReplaySession(session)}
+                                disabled={!session.trials?.length}
+                              >
+                                <ReplayIcon />
+                              </IconButton>
+                            </span>
+                          </Tooltip>
+                        </Box>
+                      }
+                    >
+                      <ListItemIcon>
+                        <Chip label={formatNBackLabel(session.settings, session.nLevel)} size="small" color="primary" sx={{ fontWeight: 600 }} />
+                      </ListItemIcon>
+                      <ListItemText
+                        primary={`${new Date(session.date).toLocaleString()} • ${formatDuration(session.duration)}${session.trainingBlock !== undefined ? ` • Block ${session.trainingBlock}` : ''}`}
+                        secondary={getActiveModalities(session.settings).map((modality) => {
+                          const metrics = calculateModalityDetection(session.score, modality)
+                          return `${getModalityLabel(modality)}: d′ ${formatDetectionValue(metrics.dPrime)}, c ${formatDetectionValue(metrics.criterion)}, HR ${formatPercentage(metrics.hitRate * 100, 0)}, FAR ${formatPercentage(metrics.falseAlarmRate * 100, 0)}`
+                        }).join(' • ')}
+                        primaryTypographyProps={{ fontWeight: 600 }}
+                      />
+                    </ListItem>
+                  ))}
+                </List>
+              )}
+            </Paper>
+          </Grid>
+        </Grid>
+
+        <SessionReplay session={replaySession} onClose={() => setReplaySession(null)} />
+
+        <Snackbar open={queuedSeed !== null} autoHideDuration={4000} onClose={() => setQueuedSeed(null)}>
+          <Alert severity="info" onClose={() => setQueuedSeed(null)}>
+            Seed {queuedSeed} and its settings are loaded. Start a game to play it.
+          </Alert>
+        </Snackbar>
       </Box>
     </Fade>
   )
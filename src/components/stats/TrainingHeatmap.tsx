@@ -0,0 +1,133 @@
+import React from 'react'
+import {
+  Box,
+  Paper,
+  Typography,
+  Tooltip,
+  useTheme,
+  alpha,
+} from '@mui/material'
+import { CalendarMonth as CalendarIcon } from '@mui/icons-material'
+import { GameSession, StreakSettings } from '../../types/game'
+import { StreakSummary, getCalendarWeeks, getDailyMinutes, getDayKey, resolveTimeZone } from '../../utils/trainingCalendar'
+
+interface TrainingHeatmapProps {
+  sessions: GameSession[]
+  streakSettings: StreakSettings
+  streaks: StreakSummary
+}
+
+const WEEK_COUNT = 53
+const CELL_SIZE = 12
+const CELL_GAP = 3
+
+// Minutes from which the darker shades begin; any training at all gets the lightest one
+const MINUTE_THRESHOLDS = [10, 20, 30]
+
+const WEEKDAY_LABELS = ['Mon', '', 'Wed', '', 'Fri', '', '']
+
+const getLevel = (minutes: number): number =>
+  minutes <= 0 ? 0 : 1 + MINUTE_THRESHOLDS.filter(threshold => minutes >= threshold).length
+
+const formatDay = (day: string): string =>
+  new Date(`${day}T12:00:00Z`).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' })
+
+const TrainingHeatmap: React.FC<TrainingHeatmapProps> = ({ sessions, streakSettings, streaks }) => {
+  const theme = useTheme()
+  const today = getDayKey(Date.now(), streakSettings.timeZone)
+  const weeks = getCalendarWeeks(today, WEEK_COUNT)
+  const dailyMinutes = getDailyMinutes(sessions, streakSettings.timeZone)
+  const frozenDays = new Set(streaks.frozenDays)
+
+  const trainedMinutes = weeks.flat().reduce((sum, day) => sum + (day ? dailyMinutes.get(day) ?? 0 : 0), 0)
+  const shades = [
+    alpha(theme.palette.text.primary, 0.08),
+    alpha(theme.palette.success.main, 0.3),
+    alpha(theme.palette.success.main, 0.5),
+    alpha(theme.palette.success.main, 0.75),
+    theme.palette.success.main,
+  ]
+
+  // A month label sits above the first week whose Monday falls in that month
+  const monthLabels = weeks.map((week, index) => {
+    const monday = week[0]
+    if (!monday) return ''
+    const previous = index > 0 ? weeks[index - 1][0] : null
+    return !previous || previous.slice(0, 7) !== monday.slice(0, 7)
+      ? new Date(`${monday}T12:00:00Z`).toLocaleDateString(undefined, { month: 'short', timeZone: 'UTC' })
+      : ''
+  })
+
+  return (
+    <Paper
+      elevation={2}
+      sx={{
+        p: 3,
+        background: `linear-gradient(135deg, ${alpha(theme.palette.success.main, 0.05)} 0%, ${alpha(theme.palette.warning.main, 0.05)} 100%)`,
+      }}
+    >
+      <Typography variant="h6" gutterBottom sx={{ fontWeight: 600, display: 'flex', alignItems: 'center', gap: 1 }}>
+        <CalendarIcon color="success" />
+        Training Calendar
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        {Math.round(trainedMinutes)} minutes in the last year • Current streak {streaks.currentStreak} •
+        Longest {streaks.longestStreak} • Days end at midnight in {resolveTimeZone(streakSettings.timeZone)}
+        {streakSettings.freezeDays > 0 && ` • ${streakSettings.freezeDays} freeze day${streakSettings.freezeDays === 1 ? '' : 's'}`}
+      </Typography>
+
+      <Box sx={{ overflowX: 'auto', pb: 1 }}>
+        <Box sx={{ display: 'inline-grid', gridTemplateColumns: `auto repeat(${WEEK_COUNT}, ${CELL_SIZE}px)`, gap: `${CELL_GAP}px` }}>
+          <Box />
+          {monthLabels.map((label, index) => (
+            <Typography key={index} variant="caption" color="text.secondary" sx={{ fontSize: 10, lineHeight: 1, whiteSpace: 'nowrap', overflow: 'visible' }}>
+              {label}
+            </Typography>
+          ))}
+
+          {WEEKDAY_LABELS.map((label, weekday) => (
+            <React.Fragment key={weekday}>
+              <Typography variant="caption" color="text.secondary" sx={{ fontSize: 10, lineHeight: `${CELL_SIZE}px`, pr: 0.5 }}>
+                {label}
+              </Typography>
+              {weeks.map((week, index) => {
+                const day = week[weekday]
+                if (!day) return <Box key={index} />
+
+                const minutes = dailyMinutes.get(day) ?? 0
+                const frozen = frozenDays.has(day)
+                return (
+                  <Tooltip
+                    key={index}
+                    title={`${formatDay(day)}: ${minutes > 0 ? `${Math.round(minutes)} min` : frozen ? 'freeze day' : 'no training'}`}
+                  >
+                    <Box
+                      sx={{
+                        width: CELL_SIZE,
+                        height: CELL_SIZE,
+                        borderRadius: '2px',
+                        bgcolor: shades[getLevel(minutes)],
+                        outline: frozen ? `1px dashed ${theme.palette.info.main}` : day === today ? `1px solid ${theme.palette.text.secondary}` : 'none',
+                        outlineOffset: -1,
+                      }}
+                    />
+                  </Tooltip>
+                )
+              })}
+            </React.Fragment>
+          ))}
+        </Box>
+      </Box>
+
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'flex-end', gap: 0.5, mt: 1 }}>
+        <Typography variant="caption" color="text.secondary" sx={{ mr: 0.5 }}>Less</Typography>
+        {shades.map(shade => (
+          <Box key={shade} sx={{ width: CELL_SIZE, height: CELL_SIZE, borderRadius: '2px', bgcolor: shade }} />
+        ))}
+        <Typography variant="caption" color="text.secondary" sx={{ ml: 0.5 }}>More</Typography>
+      </Box>
+    </Paper>
+  )
+}
+
+export default TrainingHeatmap
@@ -30,6 +30,9 @@ import {
   TrendingUp as ProgressIcon,
   Lightbulb as TipIcon,
   CheckCircle as CheckIcon,
+  Shuffle as VariableIcon,
+  SwapHoriz as CrabIcon,
+  Calculate as ArithmeticIcon,
 } from '@mui/icons-material'
 
 const tutorialSteps = [
@@ -148,6 +151,74 @@ const tutorialSteps = [
       </Box>
     ),
   },
+  {
+    label: 'Game Modes',
+    content: (
+      <Box>
+        <Typography paragraph>
+          Besides the classic mode, where every stimulus is compared with the one exactly N steps back,
+          you can pick a different N-Back Mode in Settings:
+        </Typography>
+
+        <Grid container spacing={2}>
+          <Grid item xs={12} md={6}>
+            <Card elevation={1}>
+              <CardContent>
+                <Box sx={{ display: 'flex', alignItems: 'center', mb: 1 }}>
+                  <VariableIcon color="primary" sx={{ mr: 1 }} />
+                  <Typography variant="h6">Variable N-Back</Typography>
+                </Box>
+                <Typography variant="body2">
+                  A number appears above the grid on every trial. Compare the stimulus with the one
+                  that many steps back. The N-Back Level is the highest number that can appear.
+                </Typography>
+              </CardContent>
+            </Card>
+          </Grid>
+
+          <Grid item xs={12} md={6}>
+            <Card elevation={1}>
+              <CardContent>
+                <Box sx={{ display: 'flex', alignItems: 'center', mb: 1 }}>
+                  <CrabIcon color="secondary" sx={{ mr: 1 }} />
+                  <Typography variant="h6">Crab-Back</Typography>
+                </Box>
+                <Typography variant="body2" paragraph>
+                  Stimuli come in groups of N, and each group is compared with the previous group in
+                  mirrored order, so the distance cycles 1, 3, 5 … steps back.
+                </Typography>
+                <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+                  <Chip label="Trial 4 ↔ 3" size="small" />
+                  <Chip label="Trial 5 ↔ 2" size="small" />
+                  <Chip label="Trial 6 ↔ 1" size="small" />
+                  <Chip label="Trial 7 ↔ 6" size="small" />
+                </Box>
+                <Typography variant="caption" color="text.secondary">
+                  Example at 3-back: remember the last group, then read it backwards.
+                </Typography>
+              </CardContent>
+            </Card>
+          </Grid>
+
+          <Grid item xs={12}>
+            <Card elevation={1}>
+              <CardContent>
+                <Box sx={{ display: 'flex', alignItems: 'center', mb: 1 }}>
+                  <ArithmeticIcon color="primary" sx={{ mr: 1 }} />
+                  <Typography variant="h6">Arithmetic N-Back</Typography>
+                </Box>
+                <Typography variant="body2">
+                  You hear a number and see an operation (+, −, ×) above the grid. Type the number from
+                  N trials back combined with the current number, then press Enter. With 5 heard two
+                  trials ago, 3 now and −, the answer at 2-back is 2.
+                </Typography>
+              </CardContent>
+            </Card>
+          </Grid>
+        </Grid>
+      </Box>
+    ),
+  },
   {
     label: 'Controls and Interface',
     content: (
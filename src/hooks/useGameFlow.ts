@@ -1,5 +1,7 @@
 import { useEffect } from 'react'
 import { useGameStore } from '../stores/gameStore'
+import { getActiveModalities, getResponseWindowDuration } from '../utils/gameLogic'
+import { MODALITIES } from '../utils/modalities'
 
 export const useGameFlow = () => {
   const {
@@ -7,12 +9,24 @@ export const useGameFlow = () => {
     isPaused,
     gamePhase,
     waitingForResponse,
+    responseDeadline,
+    stimulusOnset,
     settings,
     waitForResponse,
     nextStimulus,
+    awaitNext,
+    continueToNext,
     submitResponse,
+    typeArithmeticKey,
+    submitArithmeticAnswer,
+    blockSession,
+    startGame,
+    prepareSamplePack,
   } = useGameStore()
 
+  // Self-paced play waits for the player instead of advancing on its own
+  const advance = settings.autoAdvance ? nextStimulus : awaitNext
+
   // Game flow management
   useEffect(() => {
     if (!isPlaying || isPaused || gamePhase === 'preparation') return
@@ -25,52 +39,86 @@ export const useGameFlow = () => {
         waitForResponse()
       }, settings.stimulusDuration)
     } else if (gamePhase === 'response') {
-      // Wait for response or timeout
+      // Wait for a response on each modality or timeout
       timer = setTimeout(() => {
-        // No response given, treat as no match for both modalities
-        submitResponse()
-      }, 3000) // 3 second response window
+        // Deadline passed, close the window and score any unanswered modality
+        submitResponse(undefined, true)
+      }, Math.max(0, (responseDeadline ?? Date.now()) - Date.now()))
     } else if (gamePhase === 'feedback') {
-      // Brief pause before next stimulus
+      // Brief pause before next stimulus; classic timing holds until the fixed trial length elapses
+      const feedbackDelay = settings.timingMode === 'classic'
+        ? Math.max(0, (stimulusOnset ?? Date.now()) + getResponseWindowDuration(settings) - Date.now())
+        : settings.feedbackDuration
       timer = setTimeout(() => {
-        nextStimulus()
-      }, 500)
+        advance()
+      }, feedbackDelay)
     } else if (gamePhase === 'waiting') {
       // Brief pause between stimuli (for early stimuli that don't need response)
       timer = setTimeout(() => {
-        nextStimulus()
+        advance()
       }, settings.interstimulusInterval)
     }
 
     return () => clearTimeout(timer)
-  }, [gamePhase, isPlaying, isPaused, settings.stimulusDuration, settings.interstimulusInterval, waitForResponse, nextStimulus, submitResponse])
+  }, [gamePhase, isPlaying, isPaused, responseDeadline, stimulusOnset, settings, waitForResponse, advance, submitResponse])
+
+  // Timed days and training plans start the next block once the break between blocks is over
+  useEffect(() => {
+    if (gamePhase !== 'break' || !blockSession || blockSession.breakEndsAt === null) return
+
+    const timer = setTimeout(() => {
+      startGame()
+    }, Math.max(0, blockSession.breakEndsAt - Date.now()))
+
+    return () => clearTimeout(timer)
+  }, [gamePhase, blockSession, startGame])
+
+  // Load the chosen sample pack from IndexedDB so its clips are ready before the game starts
+  useEffect(() => {
+    prepareSamplePack()
+  }, [settings.audioType, settings.samplePackId, prepareSamplePack])
 
   // Keyboard controls
   useEffect(() => {
     const handleKeyPress = (event: KeyboardEvent) => {
-      if (!isPlaying || !waitingForResponse) return
-
-      switch (event.key.toLowerCase()) {
-        case 'a': // Left arrow or A key for position match
-        case 'arrowleft':
-          if (settings.showVisual) {
-            submitResponse('position')
-          }
-          break
-        case 'l': // Right arrow or L key for audio match  
-        case 'arrowright':
-          if (settings.showAudio) {
-            submitResponse('audio')
-          }
-          break
-        case ' ': // Spacebar for no match
-        case 'n':
-          submitResponse()
-          break
+      if (!isPlaying) return
+
+      const key = event.key.toLowerCase()
+
+      // Enter moves on to the next stimulus in self-paced play
+      if (key === 'enter' && gamePhase === 'awaitingNext') {
+        continueToNext()
+        return
+      }
+
+      if (!waitingForResponse) return
+
+      // Arithmetic N-back types the answer with digits, '-' and Backspace, and submits it with Enter
+      if (settings.arithmeticMode) {
+        if (key === 'enter') {
+          submitArithmeticAnswer()
+          return
+        }
+        if (/^\d$/.test(key) || key === '-' || key === 'backspace') {
+          typeArithmeticKey(event.key)
+          return
+        }
+      }
+
+      // Spacebar or N for no match
+      if (key === ' ' || key === 'n') {
+        submitResponse()
+        return
+      }
+
+      // One key per enabled modality (A/← position, F color, J shape, L/→ audio, ; second audio)
+      const modality = MODALITIES.find(definition => definition.keys.includes(key))
+      if (modality && getActiveModalities(settings).includes(modality.id)) {
+        submitResponse(modality.id)
       }
     }
 
     window.addEventListener('keydown', handleKeyPress)
     return () => window.removeEventListener('keydown', handleKeyPress)
-  }, [isPlaying, waitingForResponse, settings.showVisual, settings.showAudio, submitResponse])
+  }, [isPlaying, waitingForResponse, gamePhase, settings, submitResponse, continueToNext, typeArithmeticKey, submitArithmeticAnswer])
 }
@@ -0,0 +1,53 @@
+import { useGameStore } from '../stores/gameStore'
+import { useStatsStore } from '../stores/statsStore'
+import { useProfileStore } from '../stores/profileStore'
+import { getProfileStorageKey } from '../utils/profiles'
+import { deleteSessionHistory } from '../utils/sessionHistory'
+
+/**
+ * Profile list plus the actions that move the settings and statistics stores between profiles
+ */
+export const useProfiles = () => {
+  const { profiles, activeProfileId, addProfile, renameProfile, setActiveProfile, removeProfile } = useProfileStore()
+  const isPlaying = useGameStore(state => state.isPlaying)
+  const activeProfile = profiles.find(profile => profile.id === activeProfileId) ?? profiles[0]
+
+  // Both stores read their storage through the active profile, so rehydrating loads the new one
+  const switchProfile = async (id: string) => {
+    if (id === useProfileStore.getState().activeProfileId) return
+    useGameStore.getState().endBlockSession()
+    setActiveProfile(id)
+    await Promise.all([useGameStore.persist.rehydrate(), useStatsStore.persist.rehydrate()])
+  }
+
+  const createProfile = async (name: string) => {
+    const profile = addProfile(name)
+    await switchProfile(profile.id)
+  }
+
+  const deleteProfile = async (id: string) => {
+    const { profiles, activeProfileId } = useProfileStore.getState()
+    if (profiles.length <= 1) return
+    if (id === activeProfileId) {
+      const next = profiles.find(profile => profile.id !== id)
+      if (next) await switchProfile(next.id)
+    }
+
+    removeProfile(id)
+    const storeNames = [useGameStore.persist.getOptions().name, useStatsStore.persist.getOptions().name]
+    storeNames.forEach(name => {
+      if (name) localStorage.removeItem(getProfileStorageKey(name, id))
+    })
+    await deleteSessionHistory(id)
+  }
+
+  return {
+    profiles,
+    activeProfile,
+    canSwitch: !isPlaying,
+    switchProfile,
+    createProfile,
+    renameProfile,
+    deleteProfile,
+  }
+}
@@ -1,24 +1,123 @@
 import { create } from 'zustand'
-import { GameState, GameSettings, GameSequence, ResponseType } from '../types/game'
+import { persist } from 'zustand/middleware'
+import { BlockSessionProgress, GameSession, GameState, GameSettings, GameSequence, ResponseType, SamplePackStatus, TrialRecord } from '../types/game'
 import { 
   generateGameSequence, 
   createPerformanceSnapshot, 
   analyzeAdaptiveTriggers, 
+  getSnapshotResponses,
+  generateSessionId,
+  getActiveModalities,
+  getMinimumN,
+  getResponseWindowDuration,
+  getRoundsPerGame,
+  getTargetIndexFunction,
+  shouldModalityMatch,
+  getTrialType,
   type PerformanceSnapshot 
 } from '../utils/gameLogic'
+import { AdaptiveSequenceGenerator, createAdaptiveGenerator } from '../utils/adaptiveSequenceGenerator'
+import { generateExactSequence, validateExactTargets } from '../utils/exactSequenceGenerator'
+import { getAudioSoundCount } from '../utils/audioAlphabet'
 import { preloadAudio } from '../utils/audioManager'
+import { getLoadedSamplePack, loadSamplePack } from '../utils/samplePacks'
+import { createEmptyScore, recordOutcome } from '../utils/scoring'
+import { createSeededRandom, generateSeed } from '../utils/random'
+import { ARITHMETIC_OPERATIONS, editArithmeticInput, getExpectedArithmeticAnswer, parseArithmeticInput } from '../utils/arithmetic'
+import {
+  SETTINGS_VERSION,
+  migrateSettings,
+  restorePersistedSettings,
+  type PersistedGameSettings,
+} from '../utils/settingsPersistence'
+import { profileStorage } from './profileStore'
 
 const defaultSettings: GameSettings = {
   nLevel: 1,
   totalRounds: 15,
   showVisual: true,
   showAudio: true,
+  showColor: false,
+  showShape: false,
+  showSecondAudio: false,
   stimulusDuration: 500,
   interstimulusInterval: 1800,
+  responseWindow: 3000,
+  feedbackDuration: 500,
+  timingMode: 'extended',
   gridSize: 3,
   audioType: 'letters',
+  letterSet: 'standard',
+  audioSoundCount: 8,
+  customWords: ['cat', 'dog', 'sun', 'tree', 'book', 'fish', 'moon', 'star'],
+  samplePackId: null,
   volume: 0.8,
   autoAdvance: true,
+  sequenceMode: 'static',
+  nBackMode: 'fixed',
+  variableNMinimum: 1,
+  arithmeticMode: false,
+  sessionLengthMode: 'rounds',
+  timedMinutes: 20,
+  breakDuration: 30,
+  planBlocks: 20,
+  exactTargets: {
+    position: 3,
+    audio: 3,
+    dual: 1,
+    maxConsecutive: 2,
+    minGap: 1,
+  },
+  progression: {
+    enabled: false,
+    advanceErrorLimit: 3,
+    fallbackErrorLimit: 5,
+    fallbackSessions: 3,
+  },
+}
+
+/**
+ * Builds the state for presenting the stimulus at `index` and logs the trial
+ * Classic timing opens the response window at stimulus onset for the whole trial
+ */
+const startTrial = (
+  index: number,
+  { nLevel, settings, sequence, trials }: Pick<GameState, 'nLevel' | 'sequence' | 'trials'> & { settings: GameSettings }
+): Partial<GameState> => {
+  const stimulusOnset = Date.now()
+  const opensWindow = settings.timingMode === 'classic' && index >= nLevel
+  const getTargetIndex = getTargetIndexFunction(settings.nBackMode)
+  const expectedAnswer = settings.arithmeticMode ? getExpectedArithmeticAnswer(sequence, index, nLevel, getTargetIndex) : null
+
+  const trial: TrialRecord = {
+    stimulusIndex: index,
+    stimulus: { ...sequence[index] },
+    targets: Object.fromEntries(
+      getActiveModalities(settings).map(modality => [modality, shouldModalityMatch(sequence, index, nLevel, modality, getTargetIndex)])
+    ),
+    ...(index >= nLevel && {
+      trialTypes: Object.fromEntries(
+        getActiveModalities(settings).map(modality => [modality, getTrialType(sequence, index, nLevel, modality, getTargetIndex)])
+      ),
+    }),
+    responses: {},
+    onset: performance.now(),
+    // Unanswered until the keypad submits, so a timed-out trial counts as wrong
+    ...(expectedAnswer !== null && { arithmetic: { expected: expectedAnswer, answer: null, correct: false } }),
+  }
+
+  return {
+    // A resumed stimulus is presented again, so it replaces its earlier record
+    trials: [...trials.filter(t => t.stimulusIndex !== index), trial],
+    currentStimulusIndex: index,
+    gamePhase: 'stimulus',
+    stimulusOnset,
+    waitingForResponse: opensWindow,
+    responseDeadline: opensWindow ? stimulusOnset + getResponseWindowDuration(settings) : null,
+    awaitingNextSince: null,
+    arithmeticInput: '',
+    feedback: {}, // Reset feedback for new stimulus
+  }
 }
 
 const initialGameState: Omit<GameState, 'nLevel' | 'totalRounds'> = {
@@ -30,320 +129,566 @@ const initialGameState: Omit<GameState, 'nLevel' | 'totalRounds'> = {
   gamePhase: 'waiting',
   waitingForResponse: false,
   responseDeadline: null,
+  stimulusOnset: null,
+  awaitingNextSince: null,
+  arithmeticInput: '',
   responses: [],
-  score: {
-    positionCorrect: 0,
-    positionIncorrect: 0,
-    audioCorrect: 0,
-    audioIncorrect: 0,
-    totalCorrect: 0,
-    totalIncorrect: 0,
-    missedPositional: 0,
-    missedAudio: 0,
-    totalMissed: 0,
-  },
+  trials: [],
+  score: createEmptyScore(),
   gameStartTime: null,
   gameEndTime: null,
+  reachedEnd: false,
+  seed: null,
+  adaptiveAdjustments: [],
   feedback: {}
 }
 
 interface GameStore extends GameState {
   settings: GameSettings
   performanceHistory: PerformanceSnapshot[]
+  adaptiveGenerator: AdaptiveSequenceGenerator | null
+  nextSeed: number | null // Seed queued for the next game, e.g. to re-run a past session
+  blockSession: BlockSessionProgress | null // Timed day or training plan spanning several blocks
+  samplePackStatus: SamplePackStatus
   
   // Actions
   startGame: () => void
+  prepareSamplePack: () => Promise<void>
   pauseGame: () => void
   resumeGame: () => void
   stopGame: () => void
   endGame: () => void
   resetGame: () => void
   updateSettings: (newSettings: Partial<GameSettings>) => void
+  importSettings: (data: unknown) => void
   setSequence: (sequence: GameSequence[]) => void
+  queueSeed: (seed: number | null) => void
+  finishBlock: (session: GameSession) => void
+  endBlockSession: () => void
   
   // Stimulus management
   presentStimulus: (index: number) => void
   waitForResponse: () => void
   nextStimulus: () => void
+  awaitNext: () => void
+  continueToNext: () => void
   
   // Response handling
-  submitResponse: (type?: ResponseType) => void
+  submitResponse: (type?: ResponseType, expired?: boolean) => void // No type is the no-match key; `expired` when the deadline passed
   submitResponseIfValid: (type: ResponseType) => void
+  typeArithmeticKey: (key: string) => void
+  submitArithmeticAnswer: () => void
   
   // Computed values
   currentStimulus: () => GameSequence | null
 }
 
-export const useGameStore = create<GameStore>((set, get) => ({
-  // Initial state
-  ...initialGameState,
-  nLevel: defaultSettings.nLevel,
-  totalRounds: defaultSettings.totalRounds,
-  settings: defaultSettings,
-  performanceHistory: [],
+export const useGameStore = create<GameStore>()(
+  persist(
+    (set, get) => ({
+      // Initial state
+      ...initialGameState,
+      nLevel: defaultSettings.nLevel,
+      totalRounds: defaultSettings.totalRounds,
+      settings: defaultSettings,
+      performanceHistory: [],
+      adaptiveGenerator: null,
+      nextSeed: null,
+      blockSession: null,
+      samplePackStatus: 'none',
 
-  // Actions
-  startGame: () => {
-    const state = get()
-    
-    // Determine difficulty based on nLevel for optimal engagement
-    const difficulty = state.nLevel <= 2 ? 'easy' : state.nLevel <= 4 ? 'medium' : 'hard'
-    
-    // Use static engaging sequence
-    const sequence = generateGameSequence(
-      state.settings.totalRounds + state.nLevel,
-      state.settings.gridSize,
-      state.nLevel,
-      difficulty
-    )
-    
-    // Preload audio to ensure voices are ready
-    preloadAudio().catch(console.error)
-    
-    set({
-      sequence,
-      isPlaying: true,
-      isPaused: false,
-      currentRound: 0,
-      currentStimulusIndex: 0,
-      gamePhase: 'preparation',
-      waitingForResponse: false,
-      responseDeadline: null,
-      gameStartTime: Date.now(),
-      gameEndTime: null,
-      responses: [],
-      score: {
-        positionCorrect: 0,
-        positionIncorrect: 0,
-        audioCorrect: 0,
-        audioIncorrect: 0,
-        totalCorrect: 0,
-        totalIncorrect: 0,
-        missedPositional: 0,
-        missedAudio: 0,
-        totalMissed: 0,
-      },
-      feedback: {}
-    })
-  },
+      // Actions
+      startGame: () => {
+        const state = get()
 
-  pauseGame: () => set({
-    isPaused: true,
-    gamePhase: 'waiting',
-  }),
-
-  resumeGame: () => {
-    const { currentStimulusIndex, sequence } = get()
-    set({
-      isPaused: false,
-      gamePhase: currentStimulusIndex < sequence.length ? 'stimulus' : 'completed',
-    })
-  },
+        // The audio stream is drawn from the pack's clips, so it has to be in memory first
+        if (state.settings.audioType === 'samples' && !getLoadedSamplePack(state.settings.samplePackId)) {
+          console.error('Cannot start: the selected sample pack is not loaded')
+          if (state.samplePackStatus !== 'loading') set({ samplePackStatus: 'missing' })
+          return
+        }
 
-  stopGame: () => set({
-    isPlaying: false,
-    isPaused: false,
-    gamePhase: 'completed',
-    gameEndTime: Date.now(),
-  }),
-
-  endGame: () => set({
-    isPlaying: false,
-    gamePhase: 'completed',
-    gameEndTime: Date.now(),
-  }),
-
-  resetGame: () => {
-    const { nLevel } = get()
-    set({
-      ...initialGameState,
-      nLevel,
-    })
-  },
+        // Exact counts that do not fit the session would be cut short, so they are refused instead
+        if (state.settings.sequenceMode === 'exact') {
+          const errors = validateExactTargets(state.settings.exactTargets, getRoundsPerGame(state.settings), getActiveModalities(state.settings))
+          if (errors.length > 0) {
+            console.error('Cannot start: the exact target counts do not fit the session', errors)
+            return
+          }
+        }
 
-  updateSettings: (newSettings) => {
-    const currentSettings = get().settings
-    const updatedSettings = { ...currentSettings, ...newSettings }
-    
-    set({
-      settings: updatedSettings,
-      nLevel: newSettings.nLevel ?? get().nLevel,
-    })
-  },
+        // Determine difficulty based on nLevel for optimal engagement
+        const difficulty = state.nLevel <= 2 ? 'easy' : state.nLevel <= 4 ? 'medium' : 'hard'
 
-  setSequence: (sequence) => set({ sequence }),
+        // Every generator draws from one seeded stream so the session can be reproduced
+        const seed = state.nextSeed ?? generateSeed()
+        const random = createSeededRandom(seed)
 
-  presentStimulus: (index) => set({
-    currentStimulusIndex: index,
-    gamePhase: 'stimulus',
-    waitingForResponse: false,
-    responseDeadline: null,
-  }),
-
-  waitForResponse: () => {
-    const { currentStimulusIndex, nLevel } = get()
-    const shouldWaitForResponse = currentStimulusIndex >= nLevel
-    
-    if (!shouldWaitForResponse) {
-      set({
+        // Variable N-back cues each trial with an N between the minimum and the session level,
+        // crab-back swaps in its own choice of comparison stimulus
+        const minimumN = getMinimumN(state.settings, state.nLevel)
+        const getTargetIndex = getTargetIndexFunction(state.settings.nBackMode)
+        const operations = state.settings.arithmeticMode ? ARITHMETIC_OPERATIONS.map(operation => operation.id) : []
+        const audioSoundCount = getAudioSoundCount(state.settings)
+
+        // Timed sessions play blocks until the day's time budget is used up, training plans play a set
+        // number of blocks; the first block opens the run and later ones continue it
+        const { sessionLengthMode } = state.settings
+        const blockSession: BlockSessionProgress | null = sessionLengthMode === 'rounds'
+          ? null
+          : state.blockSession && !state.blockSession.completed && state.blockSession.kind === sessionLengthMode
+            ? { ...state.blockSession, breakEndsAt: null }
+            : {
+              kind: sessionLengthMode,
+              id: generateSessionId(),
+              startedAt: Date.now(),
+              targetDuration: state.settings.timedMinutes * 60000,
+              plannedBlocks: state.settings.planBlocks,
+              playedTime: 0,
+              blockCount: 0,
+              levels: [],
+              breakEndsAt: null,
+              completed: false,
+            }
+        const rounds = getRoundsPerGame(state.settings)
+
+        // Adaptive mode pulls stimuli on demand, starting from the initial N non-matching stimuli
+        const adaptiveGenerator = state.settings.sequenceMode === 'adaptive'
+          ? createAdaptiveGenerator(state.nLevel, state.settings.gridSize, difficulty, getActiveModalities(state.settings), random, minimumN, getTargetIndex, operations, audioSoundCount)
+          : null
+
+        // Otherwise pre-generate the whole sequence, with exact target counts or the engaging static generator
+        const sequence = adaptiveGenerator
+          ? adaptiveGenerator.getGeneratedSequence()
+          : state.settings.sequenceMode === 'exact'
+            ? generateExactSequence(
+              rounds + state.nLevel,
+              state.settings.gridSize,
+              state.nLevel,
+              getActiveModalities(state.settings),
+              state.settings.exactTargets,
+              random,
+              minimumN,
+              getTargetIndex,
+              operations,
+              audioSoundCount
+            )
+            : generateGameSequence(
+              rounds + state.nLevel,
+              state.settings.gridSize,
+              state.nLevel,
+              difficulty,
+              getActiveModalities(state.settings),
+              random,
+              minimumN,
+              getTargetIndex,
+              operations,
+              audioSoundCount
+            )
+
+        // Preload audio to ensure voices are ready
+        preloadAudio().catch(console.error)
+
+        set({
+          sequence,
+          seed,
+          nextSeed: null,
+          blockSession,
+          adaptiveGenerator,
+          adaptiveAdjustments: [],
+          isPlaying: true,
+          isPaused: false,
+          currentRound: 0,
+          currentStimulusIndex: 0,
+          gamePhase: 'preparation',
+          waitingForResponse: false,
+          responseDeadline: null,
+          stimulusOnset: null,
+          awaitingNextSince: null,
+          gameStartTime: Date.now(),
+          gameEndTime: null,
+          reachedEnd: false,
+          responses: [],
+          trials: [],
+          score: createEmptyScore(),
+          feedback: {}
+        })
+      },
+
+      pauseGame: () => set({
+        isPaused: true,
         gamePhase: 'waiting',
-        waitingForResponse: false,
-        responseDeadline: null,
-      })
-      return
-    }
-    
-    set({
-      gamePhase: 'response',
-      waitingForResponse: true,
-      responseDeadline: Date.now() + 3000, // 3 second response window
-      feedback: {}, // Reset feedback for new stimulus
-    })
-  },
+      }),
+
+      resumeGame: () => {
+        const state = get()
+        if (state.currentStimulusIndex >= state.sequence.length) {
+          set({ isPaused: false, gamePhase: 'completed', reachedEnd: true })
+          return
+        }
+        set({
+          isPaused: false,
+          ...startTrial(state.currentStimulusIndex, state),
+        })
+      },
 
-  nextStimulus: () => {
-    const { currentStimulusIndex, sequence, nLevel } = get()
-    const nextIndex = currentStimulusIndex + 1
-    
-    // Check if game should end
-    if (nextIndex >= sequence.length) {
-      set({
+      stopGame: () => set({
         isPlaying: false,
+        isPaused: false,
         gamePhase: 'completed',
         gameEndTime: Date.now(),
-      })
-      return
-    }
-    
-    set({
-      currentStimulusIndex: nextIndex,
-      currentRound: Math.max(1, nextIndex - nLevel + 1),
-      gamePhase: 'stimulus',
-      waitingForResponse: false,
-      responseDeadline: null,
-    })
-  },
+      }),
 
-  submitResponse: (type) => {
-    const state = get()
-    const { sequence, currentStimulusIndex, nLevel, score, responses, responseDeadline, currentRound } = state
-    
-    const currentSequence = sequence[currentStimulusIndex]
-    const nBackIndex = currentStimulusIndex - nLevel
-    
-    let positionCorrect = score.positionCorrect
-    let positionIncorrect = score.positionIncorrect
-    let audioCorrect = score.audioCorrect
-    let audioIncorrect = score.audioIncorrect
-    let missedPositional = score.missedPositional
-    let missedAudio = score.missedAudio
-    const newResponses = [...responses]
-    let correct = false
-
-    // Only check if we're past the N-back threshold
-    if (nBackIndex >= 0) {
-      const nBackSequence = sequence[nBackIndex]
-      
-      if (type) {
-        // User provided a response
-        if (type === 'position') {
-          correct = nBackSequence.position === currentSequence.position
-          if (correct) {
-            positionCorrect++
-          } else {
-            positionIncorrect++
-          }
+      endGame: () => set({
+        isPlaying: false,
+        gamePhase: 'completed',
+        gameEndTime: Date.now(),
+      }),
+
+      resetGame: () => {
+        const { nLevel } = get()
+        set({
+          ...initialGameState,
+          nLevel,
+          adaptiveGenerator: null,
+          blockSession: null,
+        })
+      },
+
+      updateSettings: (newSettings) => {
+        const currentSettings = get().settings
+        const updatedSettings = { ...currentSettings, ...newSettings }
+
+        set({
+          settings: updatedSettings,
+          nLevel: newSettings.nLevel ?? get().nLevel,
+        })
+      },
+
+      // Loads the chosen sample pack from IndexedDB; Start stays disabled until it is ready
+      prepareSamplePack: async () => {
+        const { audioType, samplePackId } = get().settings
+        if (audioType !== 'samples' || !samplePackId) {
+          set({ samplePackStatus: 'none' })
+          return
+        }
+        if (getLoadedSamplePack(samplePackId)) {
+          set({ samplePackStatus: 'ready' })
+          return
         }
 
-        if (type === 'audio') {
-          correct = nBackSequence.audio === currentSequence.audio
-          if (correct) {
-            audioCorrect++
-          } else {
-            audioIncorrect++
-          }
+        set({ samplePackStatus: 'loading' })
+        let status: SamplePackStatus = 'missing'
+        try {
+          status = await loadSamplePack(samplePackId) ? 'ready' : 'missing'
+        } catch (error) {
+          console.error('Failed to load sample pack:', error)
         }
-        
-        newResponses.push({
-          type,
-          responseTime: responseDeadline ? Date.now() - (responseDeadline - 3000) : 0,
-          roundIndex: currentRound,
-          correct,
+        // A different pack may have been chosen while this one was loading
+        if (get().settings.samplePackId === samplePackId) {
+          set({ samplePackStatus: status })
+        }
+      },
+
+      // Imported settings are repaired the same way as stored ones
+      importSettings: (data) => set(restorePersistedSettings(data, defaultSettings)),
+
+      setSequence: (sequence) => set({ sequence }),
+
+      queueSeed: (seed) => set({ nextSeed: seed }),
+
+      finishBlock: (session) => {
+        const { blockSession, settings } = get()
+        if (!blockSession) return
+
+        const playedTime = blockSession.playedTime + session.duration
+        const blockCount = blockSession.blockCount + 1
+        const completed = blockSession.kind === 'timed'
+          ? playedTime >= blockSession.targetDuration
+          : blockCount >= blockSession.plannedBlocks
+        set({
+          blockSession: {
+            ...blockSession,
+            playedTime,
+            blockCount,
+            levels: [...blockSession.levels, session.nLevel],
+            completed,
+            breakEndsAt: completed ? null : Date.now() + settings.breakDuration * 1000,
+          },
+          // Rest between blocks; the summary of the final block stays on screen
+          ...(!completed && { gamePhase: 'break' as const }),
         })
-      } else {
-        // No response provided - check for missed opportunities
-        if (nBackSequence.position === currentSequence.position) {
-          missedPositional++
+      },
+
+      // Stops a timed day or training plan during a break; every finished block is already saved
+      endBlockSession: () => set({
+        ...initialGameState,
+        nLevel: get().nLevel,
+        adaptiveGenerator: null,
+        blockSession: null,
+      }),
+
+      presentStimulus: (index) => set(startTrial(index, get())),
+
+      waitForResponse: () => {
+        const { currentStimulusIndex, nLevel, settings } = get()
+        const shouldWaitForResponse = currentStimulusIndex >= nLevel
+
+        if (!shouldWaitForResponse) {
+          set({
+            gamePhase: 'waiting',
+            waitingForResponse: false,
+            responseDeadline: null,
+          })
+          return
         }
-        if (nBackSequence.audio === currentSequence.audio) {
-          missedAudio++
+
+        // Classic timing opened the window at stimulus onset; keep its deadline
+        if (settings.timingMode === 'classic') {
+          set({ gamePhase: 'response' })
+          return
         }
-      }
-    }
 
-    set({
-      responses: newResponses,
-      score: {
-        positionCorrect,
-        positionIncorrect,
-        audioCorrect,
-        audioIncorrect,
-        totalCorrect: positionCorrect + audioCorrect,
-        totalIncorrect: positionIncorrect + audioIncorrect,
-        missedPositional,
-        missedAudio,
-        totalMissed: missedPositional + missedAudio,
+        set({
+          gamePhase: 'response',
+          waitingForResponse: true,
+          responseDeadline: Date.now() + getResponseWindowDuration(settings),
+        })
       },
-      waitingForResponse: false,
-      gamePhase: 'feedback',
-      responseDeadline: null,
-      feedback: {
-        position: type === 'position' ? correct : undefined,
-        audio: type === 'audio' ? correct : undefined,
-      }
-    })
-
-    // Performance tracking: Create performance snapshot for analysis
-    const updatedState = get()
-    if (updatedState.responses.length % 3 === 0) {
-      const snapshot = createPerformanceSnapshot(
-        updatedState.responses, 
-        updatedState.currentRound,
-        5
-      )
-      const newPerformanceHistory = [...updatedState.performanceHistory, snapshot]
-      
-      // Analyze performance triggers for future use
-      const triggers = analyzeAdaptiveTriggers(newPerformanceHistory, updatedState.nLevel)
-      
-      set({ 
-        performanceHistory: newPerformanceHistory.slice(-20) // Keep last 20 snapshots
-      })
-      
-      // Log performance insights for debugging
-      console.log('📊 Performance Analysis:', {
-        round: updatedState.currentRound,
-        accuracy: snapshot.accuracy.toFixed(1) + '%',
-        reason: triggers.reason,
-        recommendation: triggers.recommendedAction
-      })
-    }
-  },
 
-  submitResponseIfValid: (type) => {
-    const { currentStimulusIndex, nLevel, waitingForResponse } = get()
-    const nBackIndex = currentStimulusIndex - nLevel
-    
-    if (nBackIndex >= 0 && waitingForResponse) {
-      get().submitResponse(type)
-    }
-  },
+      nextStimulus: () => {
+        const state = get()
+        const { currentStimulusIndex, sequence, nLevel, settings, adaptiveGenerator, blockSession, gameStartTime } = state
+        const nextIndex = currentStimulusIndex + 1
+        const sessionLength = adaptiveGenerator ? getRoundsPerGame(settings) + nLevel : sequence.length
 
-  // Computed values
-  currentStimulus: () => {
-    const { currentStimulusIndex, sequence } = get()
-    return currentStimulusIndex >= 0 && currentStimulusIndex < sequence.length
-      ? sequence[currentStimulusIndex]
-      : null
-  },
-}))
+        // A timed block also ends early once the training day's budget runs out
+        const timeUp = blockSession?.kind === 'timed' && gameStartTime !== null &&
+          blockSession.playedTime + Date.now() - gameStartTime >= blockSession.targetDuration
+
+        // Check if game should end
+        if (nextIndex >= sessionLength || timeUp) {
+          set({
+            isPlaying: false,
+            gamePhase: 'completed',
+            gameEndTime: Date.now(),
+            reachedEnd: true,
+          })
+          return
+        }
+
+        // Adaptive mode generates the next stimulus only when it is about to be shown
+        const nextSequence = adaptiveGenerator && nextIndex >= sequence.length
+          ? [...sequence, adaptiveGenerator.getNextStimulus()]
+          : sequence
+
+        set({
+          sequence: nextSequence,
+          currentRound: Math.max(1, nextIndex - nLevel + 1),
+          ...startTrial(nextIndex, { ...state, sequence: nextSequence }),
+        })
+      },
+
+      awaitNext: () => set({
+        gamePhase: 'awaitingNext',
+        awaitingNextSince: performance.now(),
+      }),
+
+      continueToNext: () => {
+        const { gamePhase, awaitingNextSince, currentStimulusIndex, trials } = get()
+        if (gamePhase !== 'awaitingNext') return
+
+        // Record how long the player took before moving on
+        const selfPacedInterval = awaitingNextSince !== null ? performance.now() - awaitingNextSince : 0
+        set({
+          trials: trials.map(trial => trial.stimulusIndex === currentStimulusIndex
+            ? { ...trial, selfPacedInterval }
+            : trial
+          ),
+          awaitingNextSince: null,
+        })
+        get().nextStimulus()
+      },
+
+      submitResponse: (type, expired = false) => {
+        const state = get()
+        const { sequence, currentStimulusIndex, nLevel, settings, score, responses, trials, responseDeadline, currentRound, feedback } = state
+
+        const activeModalities = getActiveModalities(settings)
+        const isScorable = currentStimulusIndex - nLevel >= 0
+        let newScore = score
+        const newResponses = [...responses]
+        const newFeedback = { ...feedback }
+        let newTrials = trials
+
+        if (type) {
+          // Each modality accepts a single response per trial
+          if (newFeedback[type] !== undefined || !activeModalities.includes(type)) return
+
+          const correct = isScorable && shouldModalityMatch(sequence, currentStimulusIndex, nLevel, type, getTargetIndexFunction(settings.nBackMode))
+          newScore = recordOutcome(newScore, type, correct ? 'hit' : 'falseAlarm')
+          newFeedback[type] = correct
+
+          newResponses.push({
+            type,
+            responseTime: responseDeadline ? Date.now() - (responseDeadline - getResponseWindowDuration(settings)) : 0,
+            roundIndex: currentRound,
+            stimulusIndex: currentStimulusIndex,
+            correct,
+          })
+
+          // Log the response against the trial, timed from stimulus onset
+          const timestamp = performance.now()
+          newTrials = trials.map(trial => trial.stimulusIndex === currentStimulusIndex
+            ? {
+              ...trial,
+              responses: {
+                ...trial.responses,
+                [type]: { timestamp, reactionTime: timestamp - trial.onset, correct },
+              },
+            }
+            : trial
+          )
+        }
+
+        // The window stays open until every active modality and the arithmetic keypad have answered
+        // or it is closed with the no-match key; classic timing keeps it open until the deadline has passed
+        const arithmeticPending = newTrials.find(trial => trial.stimulusIndex === currentStimulusIndex)?.arithmetic?.answer === null
+        const allAnswered = activeModalities.every(modality => newFeedback[modality] !== undefined) && !arithmeticPending
+        const windowClosed = expired || ((!type || allAnswered) && settings.timingMode !== 'classic')
+
+        if (windowClosed && isScorable) {
+          // Unanswered modalities are misses on targets and correct rejections otherwise
+          activeModalities
+            .filter(modality => newFeedback[modality] === undefined)
+            .forEach(modality => {
+              const isMatch = shouldModalityMatch(sequence, currentStimulusIndex, nLevel, modality, getTargetIndexFunction(settings.nBackMode))
+              newScore = recordOutcome(newScore, modality, isMatch ? 'miss' : 'correctRejection')
+            })
+        }
+
+        set({
+          responses: newResponses,
+          trials: newTrials,
+          score: newScore,
+          feedback: newFeedback,
+          ...(windowClosed && {
+            waitingForResponse: false,
+            gamePhase: 'feedback' as const,
+            responseDeadline: null,
+          }),
+        })
+
+        // Performance tracking: every third scored trial, once its window has closed, so that
+        // misses count and a player who stops responding still gets adjustments
+        const updatedState = get()
+        if (windowClosed && isScorable && updatedState.currentRound % 3 === 0) {
+          const snapshot = createPerformanceSnapshot(
+            getSnapshotResponses(updatedState.trials, updatedState.nLevel),
+            updatedState.currentRound,
+            5
+          )
+          const newPerformanceHistory = [...updatedState.performanceHistory, snapshot]
+
+          // Analyze performance triggers for future use
+          const triggers = analyzeAdaptiveTriggers(newPerformanceHistory, updatedState.nLevel)
+
+          set({ 
+            performanceHistory: newPerformanceHistory.slice(-20) // Keep last 20 snapshots
+          })
+
+          // Feed the snapshot to the adaptive generator and record the applied adjustment
+          const { adaptiveGenerator } = updatedState
+          if (adaptiveGenerator) {
+            const { action, reason } = adaptiveGenerator.updateConfig(snapshot)
+            const { currentConfig } = adaptiveGenerator.getStats()
+
+            set({
+              adaptiveAdjustments: [...updatedState.adaptiveAdjustments, {
+                timestamp: snapshot.timestamp,
+                stimulusIndex: updatedState.currentStimulusIndex + 1,
+                round: updatedState.currentRound,
+                accuracy: snapshot.accuracy,
+                action,
+                reason,
+                positionMatchRate: currentConfig.targetPositionMatchRate,
+                audioMatchRate: currentConfig.targetAudioMatchRate,
+                overlapBonus: currentConfig.overlapBonus,
+              }],
+            })
+          }
+
+          // Log performance insights for debugging
+          console.log('📊 Performance Analysis:', {
+            round: updatedState.currentRound,
+            accuracy: snapshot.accuracy.toFixed(1) + '%',
+            reason: triggers.reason,
+            recommendation: triggers.recommendedAction
+          })
+        }
+      },
+
+      submitResponseIfValid: (type) => {
+        const { currentStimulusIndex, nLevel, waitingForResponse } = get()
+        const nBackIndex = currentStimulusIndex - nLevel
+
+        if (nBackIndex >= 0 && waitingForResponse) {
+          get().submitResponse(type)
+        }
+      },
+
+      typeArithmeticKey: (key) => {
+        const { settings, waitingForResponse, arithmeticInput } = get()
+        if (!settings.arithmeticMode || !waitingForResponse) return
+
+        set({ arithmeticInput: editArithmeticInput(arithmeticInput, key) })
+      },
+
+      submitArithmeticAnswer: () => {
+        const { settings, waitingForResponse, arithmeticInput, currentStimulusIndex, trials, feedback } = get()
+        const answer = parseArithmeticInput(arithmeticInput)
+        const trial = trials.find(t => t.stimulusIndex === currentStimulusIndex)
+        const arithmetic = trial?.arithmetic
+        if (!waitingForResponse || answer === null || !trial || !arithmetic || arithmetic.answer !== null) return
+
+        // One answer per trial, timed from stimulus onset like the match responses
+        const reactionTime = performance.now() - trial.onset
+        set({
+          trials: trials.map(t => t === trial
+            ? { ...t, arithmetic: { ...arithmetic, answer, correct: answer === arithmetic.expected, reactionTime } }
+            : t
+          ),
+        })
+
+        // Close the window early once nothing else is left to answer, as submitResponse does
+        const allAnswered = getActiveModalities(settings).every(modality => feedback[modality] !== undefined)
+        if (allAnswered && settings.timingMode !== 'classic') {
+          get().submitResponse()
+        }
+      },
+
+      // Computed values
+      currentStimulus: () => {
+        const { currentStimulusIndex, sequence } = get()
+        return currentStimulusIndex >= 0 && currentStimulusIndex < sequence.length
+          ? sequence[currentStimulusIndex]
+          : null
+      },
+    }),
+    {
+      name: 'dual-n-back-settings',
+      storage: profileStorage,
+      version: SETTINGS_VERSION,
+      partialize: (state): PersistedGameSettings => ({
+        settings: state.settings,
+        nLevel: state.nLevel,
+      }),
+      migrate: migrateSettings,
+      merge: (persistedState, currentState) => ({
+        // Validate and repair whatever was stored before it reaches the game
+        ...currentState,
+        ...restorePersistedSettings(persistedState, defaultSettings),
+      }),
+    }
+  )
+)
@@ -0,0 +1,77 @@
+import { create } from 'zustand'
+import { createJSONStorage, persist } from 'zustand/middleware'
+import { Profile } from '../types/game'
+import { createDefaultProfile, createProfile, createProfileStorage, normalizeProfileName } from '../utils/profiles'
+
+interface ProfileStore {
+  profiles: Profile[]
+  activeProfileId: string
+
+  // Actions
+  addProfile: (name: string) => Profile
+  renameProfile: (id: string, name: string) => void
+  setActiveProfile: (id: string) => void
+  removeProfile: (id: string) => void
+}
+
+export const useProfileStore = create<ProfileStore>()(
+  persist(
+    (set, get) => {
+      const defaultProfile = createDefaultProfile()
+
+      return {
+        profiles: [defaultProfile],
+        activeProfileId: defaultProfile.id,
+
+        addProfile: (name) => {
+          const profile = createProfile(name, get().profiles)
+          set({ profiles: [...get().profiles, profile] })
+          return profile
+        },
+
+        renameProfile: (id, name) => {
+          const normalized = normalizeProfileName(name)
+          if (!normalized) return
+          set({ profiles: get().profiles.map(profile => profile.id === id ? { ...profile, name: normalized } : profile) })
+        },
+
+        setActiveProfile: (id) => {
+          if (get().profiles.some(profile => profile.id === id)) {
+            set({ activeProfileId: id })
+          }
+        },
+
+        // The active profile and the last remaining one cannot be removed
+        removeProfile: (id) => {
+          const { profiles, activeProfileId } = get()
+          if (id === activeProfileId || profiles.length <= 1) return
+          set({ profiles: profiles.filter(profile => profile.id !== id) })
+        },
+      }
+    },
+    {
+      name: 'dual-n-back-profiles',
+      partialize: (state) => ({
+        profiles: state.profiles,
+        activeProfileId: state.activeProfileId,
+      }),
+      merge: (persistedState, currentState) => {
+        const persisted = persistedState as Partial<ProfileStore> | undefined
+        const profiles = Array.isArray(persisted?.profiles) && persisted.profiles.length > 0
+          ? persisted.profiles
+          : currentState.profiles
+        // Fall back to the first profile if the active one went missing
+        const activeProfile = profiles.find(profile => profile.id === persisted?.activeProfileId) ?? profiles[0]
+
+        return { ...currentState, profiles, activeProfileId: activeProfile.id }
+      },
+    }
+  )
+)
+
+/**
+ * localStorage scoped to the active profile, for the stores that keep per-profile data
+ */
+export const profileStorage = createJSONStorage(() =>
+  createProfileStorage(localStorage, () => useProfileStore.getState().activeProfileId)
+)
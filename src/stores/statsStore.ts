@@ -1,6 +1,11 @@
 import { create } from 'zustand'
 import { persist } from 'zustand/middleware'
-import { Statistics, GameSession, Achievement } from '../types/game'
+import { Statistics, GameSession, Achievement, LevelChangeRecord, TrainingDay, TrainingSession, BlockSessionProgress, StreakSettings } from '../types/game'
+import { calculateSessionScore } from '../utils/scoring'
+import { DEFAULT_STREAK_SETTINGS, MAX_FREEZE_DAYS, calculateStreaks } from '../utils/trainingCalendar'
+import { loadSessions, replaceSessions, saveSession, saveSessions } from '../utils/sessionHistory'
+import { STATS_EXPORT_VERSION, StatsImport, StatsImportMode, ImportedUnlock, mergeByKey } from '../utils/statsImport'
+import { profileStorage, useProfileStore } from './profileStore'
 
 // Achievement condition functions - these don't get serialized to localStorage
 const achievementConditions: Record<string, (stats: Statistics, session?: GameSession) => boolean> = {
@@ -74,6 +79,24 @@ const restoreAchievementConditions = (achievements: Achievement[]): Achievement[
   }))
 }
 
+/**
+ * Unlocks every achievement the statistics qualify for, checking session-specific ones against each session
+ * Unlocks listed in `earned` are kept; the earliest date wins when an achievement appears twice
+ */
+const evaluateAchievements = (stats: Statistics, earned: ImportedUnlock[]): Achievement[] => {
+  const earnedDates = new Map<string, number>()
+  earned.forEach(({ id, unlockedDate = Date.now() }) => {
+    earnedDates.set(id, Math.min(earnedDates.get(id) ?? Infinity, unlockedDate))
+  })
+
+  const completedSessions = stats.sessions.filter(s => s.completed)
+  return defaultAchievements.map(achievement => {
+    const qualifies = achievement.condition(stats) || completedSessions.some(session => achievement.condition(stats, session))
+    const unlockedDate = earnedDates.get(achievement.id) ?? (qualifies ? Date.now() : undefined)
+    return { ...achievement, unlocked: unlockedDate !== undefined, unlockedDate }
+  })
+}
+
 const initialStats: Statistics = {
   sessions: [],
   totalGamesPlayed: 0,
@@ -85,92 +108,102 @@ const initialStats: Statistics = {
   nLevelProgress: {},
 }
 
-const calculateStats = (sessions: GameSession[]): Statistics => {
-  if (sessions.length === 0) {
-    return initialStats
-  }
-
-  const completedSessions = sessions.filter(s => s.completed)
-  const scores = completedSessions.map(s => {
-    const totalAttempts = s.score.totalCorrect + s.score.totalIncorrect + s.score.totalMissed
-    return totalAttempts > 0 ? (s.score.totalCorrect / totalAttempts * 100) : 0
-  })
+/**
+ * Folds one completed session into the running aggregates
+ * Sessions and streaks are left as they are; callers update them alongside
+ */
+const addSessionToAggregates = (stats: Statistics, session: GameSession): Statistics => {
+  const sessionScore = calculateSessionScore(session.score)
+  const totalGamesPlayed = stats.totalGamesPlayed + 1
+  const levelStats = stats.nLevelProgress[session.nLevel] ?? { gamesPlayed: 0, averageScore: 0, bestScore: 0, lastPlayed: 0 }
+  const gamesPlayed = levelStats.gamesPlayed + 1
 
-  const totalPlayTime = completedSessions.reduce((sum, s) => sum + s.duration, 0)
-  const averageScore = scores.length > 0 ? scores.reduce((sum, score) => sum + score, 0) / scores.length : 0
-  const bestScore = scores.length > 0 ? Math.max(...scores) : 0
-
-  // Calculate streaks (simplified - consecutive days)
-  const dates = completedSessions.map(s => new Date(s.date).toDateString()).sort()
-  const uniqueDates = [...new Set(dates)]
-  
-  let currentStreak = 0
-  let longestStreak = 0
-  let tempStreak = 0
-  
-  for (let i = 0; i < uniqueDates.length; i++) {
-    const currentDate = new Date(uniqueDates[i])
-    const prevDate = i > 0 ? new Date(uniqueDates[i - 1]) : null
-    
-    if (prevDate && (currentDate.getTime() - prevDate.getTime()) === 86400000) {
-      tempStreak++
-    } else {
-      tempStreak = 1
-    }
-    
-    longestStreak = Math.max(longestStreak, tempStreak)
-    
-    // Current streak calculation (from today backwards)
-    const today = new Date().toDateString()
-    if (i === uniqueDates.length - 1 && uniqueDates[i] === today) {
-      currentStreak = tempStreak
-    }
+  return {
+    ...stats,
+    totalGamesPlayed,
+    averageScore: (stats.averageScore * stats.totalGamesPlayed + sessionScore) / totalGamesPlayed,
+    bestScore: Math.max(stats.bestScore, sessionScore),
+    totalPlayTime: stats.totalPlayTime + session.duration,
+    nLevelProgress: {
+      ...stats.nLevelProgress,
+      [session.nLevel]: {
+        gamesPlayed,
+        averageScore: (levelStats.averageScore * levelStats.gamesPlayed + sessionScore) / gamesPlayed,
+        bestScore: Math.max(levelStats.bestScore, sessionScore),
+        lastPlayed: Math.max(levelStats.lastPlayed, session.date),
+      },
+    },
   }
+}
 
-  // N-level progress
-  const nLevelProgress: Statistics['nLevelProgress'] = {}
-  completedSessions.forEach(session => {
-    const level = session.nLevel
-    if (!nLevelProgress[level]) {
-      nLevelProgress[level] = {
-        gamesPlayed: 0,
-        averageScore: 0,
-        bestScore: 0,
-        lastPlayed: 0,
-      }
-    }
-    
-    const levelStats = nLevelProgress[level]
-    const totalAttempts = session.score.totalCorrect + session.score.totalIncorrect + session.score.totalMissed
-    const sessionScore = totalAttempts > 0 ? (session.score.totalCorrect / totalAttempts * 100) : 0
-    
-    levelStats.gamesPlayed++
-    levelStats.averageScore = (levelStats.averageScore * (levelStats.gamesPlayed - 1) + sessionScore) / levelStats.gamesPlayed
-    levelStats.bestScore = Math.max(levelStats.bestScore, sessionScore)
-    levelStats.lastPlayed = Math.max(levelStats.lastPlayed, session.date)
-  })
+/**
+ * Streaks over the local calendar days with a completed session, as of now
+ * Only session dates are needed, so this stays cheap even for a long history
+ */
+const getStreakStats = (sessions: GameSession[], streakSettings: StreakSettings): Pick<Statistics, 'currentStreak' | 'longestStreak'> => {
+  const dates = sessions.filter(s => s.completed).map(s => s.date)
+  const { currentStreak, longestStreak } = calculateStreaks(dates, streakSettings)
+  return { currentStreak, longestStreak }
+}
 
+/**
+ * Recomputes all statistics from scratch; used when a whole history is migrated or imported
+ */
+const calculateStats = (sessions: GameSession[], streakSettings: StreakSettings): Statistics => {
+  const sortedSessions = [...sessions].sort((a, b) => a.date - b.date)
+  const completedSessions = sortedSessions.filter(s => s.completed)
   return {
-    sessions: completedSessions,
-    totalGamesPlayed: completedSessions.length,
-    averageScore,
-    bestScore,
-    currentStreak,
-    longestStreak,
-    totalPlayTime,
-    nLevelProgress,
+    ...completedSessions.reduce(addSessionToAggregates, initialStats),
+    ...getStreakStats(sessions, streakSettings),
+    sessions: sortedSessions,
   }
 }
 
+/**
+ * Merges two session lists by id, oldest first; `preferred` wins on conflicts
+ */
+const mergeSessions = (sessions: GameSession[], preferred: GameSession[]): GameSession[] => {
+  const preferredIds = new Set(preferred.map(s => s.id))
+  return [...sessions.filter(s => !preferredIds.has(s.id)), ...preferred].sort((a, b) => a.date - b.date)
+}
+
+// The history is read from IndexedDB once per page load, and again after each profile switch
+let historyLoad: { profileId: string, promise: Promise<void> } | null = null
+
+const getActiveProfileId = (): string => useProfileStore.getState().activeProfileId
+
+// Persisted state of a profile with no data yet; switching profiles starts from here
+const emptyProfileState = {
+  stats: initialStats,
+  achievements: defaultAchievements,
+  levelChanges: [],
+  trainingDays: [],
+  trainingSessions: [],
+  streakSettings: DEFAULT_STREAK_SETTINGS,
+  historyLoaded: false,
+  pendingSessions: [],
+}
+
 interface StatsStore {
   stats: Statistics
   achievements: Achievement[]
+  levelChanges: LevelChangeRecord[]
+  trainingDays: TrainingDay[]
+  trainingSessions: TrainingSession[]
+  streakSettings: StreakSettings
+  historyLoaded: boolean // Whether stats.sessions holds the history from IndexedDB yet
+  pendingSessions: GameSession[] // Sessions from the old localStorage payload, kept until IndexedDB has them
   
   // Actions
+  loadHistory: () => Promise<void>
   addGameSession: (session: GameSession) => void
+  recordLevelChange: (change: LevelChangeRecord) => void
+  recordTrainingDayBlock: (day: BlockSessionProgress, session: GameSession) => void
+  recordTrainingSessionBlock: (plan: BlockSessionProgress, session: GameSession) => void
+  updateStreakSettings: (settings: Partial<StreakSettings>) => void
   clearStats: () => void
   exportStats: () => string
-  importStats: (data: string) => void
+  importStats: (data: StatsImport, mode: StatsImportMode) => Promise<void>
   
   // Internal methods
   updateAchievements: (newSession?: GameSession) => void
@@ -179,46 +212,157 @@ interface StatsStore {
 export const useStatsStore = create<StatsStore>()(
   persist(
     (set, get) => ({
-      stats: initialStats,
-      achievements: defaultAchievements,
+      ...emptyProfileState,
+
+      loadHistory: () => {
+        const profileId = getActiveProfileId()
+        if (historyLoad?.profileId !== profileId) {
+          // A load that finishes after the player switched profiles is dropped
+          const isCurrent = () => getActiveProfileId() === profileId
+          const promise = (async () => {
+            const { pendingSessions } = get()
+            try {
+              // One-time move of the sessions that used to live in localStorage
+              if (pendingSessions.length > 0) {
+                await saveSessions(profileId, pendingSessions)
+                if (isCurrent()) set({ pendingSessions: [] })
+              }
+              const stored = await loadSessions(profileId)
+              if (!isCurrent()) return
+
+              // Sessions finished while the history was loading are already in memory
+              const sessions = mergeSessions(stored, get().stats.sessions)
+              set({ stats: { ...get().stats, ...getStreakStats(sessions, get().streakSettings), sessions } })
+            } catch (error) {
+              console.error('Failed to load session history:', error)
+            } finally {
+              if (isCurrent()) set({ historyLoaded: true })
+            }
+          })()
+          historyLoad = { profileId, promise }
+        }
+        return historyLoad.promise
+      },
 
       addGameSession: (session) => {
-        const currentStats = get().stats
-        const newSessions = [...currentStats.sessions, session]
-        const updatedStats = calculateStats(newSessions)
-        
-        set({ stats: updatedStats })
+        const { stats, streakSettings } = get()
+        const sessions = [...stats.sessions, session]
+        const aggregates = session.completed ? addSessionToAggregates(stats, session) : stats
+
+        // Aggregates are updated in place of a full recalculation; the session itself goes to IndexedDB
+        set({ stats: { ...aggregates, ...getStreakStats(sessions, streakSettings), sessions } })
+        saveSession(getActiveProfileId(), session).catch(error => console.error('Failed to save session:', error))
         
         // Check for achievements after updating stats
         get().updateAchievements(session)
       },
 
+      recordLevelChange: (change) => {
+        set({ levelChanges: [...get().levelChanges, change] })
+      },
+
+      recordTrainingDayBlock: (day, session) => {
+        const trainingDays = get().trainingDays
+        const existing = trainingDays.find(d => d.id === day.id)
+        const playTime = (existing?.playTime ?? 0) + session.duration
+        const updated: TrainingDay = {
+          id: day.id,
+          date: day.startedAt,
+          targetDuration: day.targetDuration,
+          sessionIds: [...(existing?.sessionIds ?? []), session.id],
+          playTime,
+          completed: playTime >= day.targetDuration,
+        }
+
+        set({
+          trainingDays: existing
+            ? trainingDays.map(d => d.id === day.id ? updated : d)
+            : [...trainingDays, updated],
+        })
+      },
+
+      recordTrainingSessionBlock: (plan, session) => {
+        const trainingSessions = get().trainingSessions
+        const existing = trainingSessions.find(t => t.id === plan.id)
+        const sessionIds = [...(existing?.sessionIds ?? []), session.id]
+        const updated: TrainingSession = {
+          id: plan.id,
+          date: plan.startedAt,
+          plannedBlocks: plan.plannedBlocks,
+          sessionIds,
+          levels: [...(existing?.levels ?? []), session.nLevel],
+          completed: sessionIds.length >= plan.plannedBlocks,
+        }
+
+        set({
+          trainingSessions: existing
+            ? trainingSessions.map(t => t.id === plan.id ? updated : t)
+            : [...trainingSessions, updated],
+        })
+      },
+
+      updateStreakSettings: (settings) => {
+        const current = get().streakSettings
+        const freezeDays = settings.freezeDays ?? current.freezeDays
+        const streakSettings: StreakSettings = {
+          freezeDays: Number.isFinite(freezeDays) ? Math.min(MAX_FREEZE_DAYS, Math.max(0, Math.round(freezeDays))) : current.freezeDays,
+          timeZone: settings.timeZone === null || typeof settings.timeZone === 'string' ? settings.timeZone : current.timeZone,
+        }
+        set({ streakSettings, stats: { ...get().stats, ...getStreakStats(get().stats.sessions, streakSettings) } })
+        get().updateAchievements()
+      },
+
       clearStats: () => {
+        replaceSessions(getActiveProfileId(), []).catch(error => console.error('Failed to clear session history:', error))
         set({ 
           stats: initialStats, 
+          pendingSessions: [],
+          levelChanges: [],
+          trainingDays: [],
+          trainingSessions: [],
           achievements: defaultAchievements.map(a => ({ ...a, unlocked: false, unlockedDate: undefined }))
         })
       },
 
       exportStats: () => {
-        const { stats, achievements } = get()
-        return JSON.stringify({ stats, achievements }, null, 2)
+        const { stats, achievements, levelChanges, trainingDays, trainingSessions, streakSettings } = get()
+        return JSON.stringify({ version: STATS_EXPORT_VERSION, stats, achievements, levelChanges, trainingDays, trainingSessions, streakSettings }, null, 2)
       },
 
-      importStats: (data) => {
-        try {
-          const parsed = JSON.parse(data)
-          if (parsed.stats) {
-            set({ stats: parsed.stats })
-          }
-          if (parsed.achievements) {
-            const restoredAchievements = restoreAchievementConditions(parsed.achievements)
-            set({ achievements: restoredAchievements })
-          }
-        } catch (error) {
-          console.error('Failed to import stats:', error)
-          throw new Error('Invalid stats data format')
+      importStats: async (data, mode) => {
+        // Merging needs the full history to find duplicates
+        await get().loadHistory()
+        const profileId = getActiveProfileId()
+        const current = get()
+        const merging = mode === 'merge'
+
+        // Sessions already in the history win over imported ones with the same id
+        const sessions = merging ? mergeSessions(data.sessions, current.stats.sessions) : data.sessions
+        const streakSettings = !merging && data.streakSettings ? data.streakSettings : current.streakSettings
+        const stats = calculateStats(sessions, streakSettings)
+
+        if (merging) {
+          const existingIds = new Set(current.stats.sessions.map(s => s.id))
+          await saveSessions(profileId, data.sessions.filter(s => !existingIds.has(s.id)))
+        } else {
+          await replaceSessions(profileId, sessions)
         }
+
+        const earned = merging
+          ? [...current.achievements.filter(a => a.unlocked), ...data.unlockedAchievements]
+          : data.unlockedAchievements
+
+        set({
+          stats,
+          streakSettings,
+          pendingSessions: [],
+          levelChanges: merging
+            ? mergeByKey(current.levelChanges, data.levelChanges, change => `${change.sessionId}:${change.date}`)
+            : data.levelChanges,
+          trainingDays: merging ? mergeByKey(current.trainingDays, data.trainingDays, day => day.id) : data.trainingDays,
+          trainingSessions: merging ? mergeByKey(current.trainingSessions, data.trainingSessions, plan => plan.id) : data.trainingSessions,
+          achievements: evaluateAchievements(stats, earned),
+        })
       },
 
       updateAchievements: (newSession) => {
@@ -252,8 +396,34 @@ export const useStatsStore = create<StatsStore>()(
     }),
     {
       name: 'dual-n-back-stats',
+      storage: profileStorage,
+      // Version 1 keeps sessions in IndexedDB and only aggregates in localStorage
+      version: 1,
+      migrate: (persistedState, version): Record<string, unknown> => {
+        const state = persistedState as Partial<StatsStore>
+        if (version < 1 && state.stats) {
+          const sessions = state.stats.sessions ?? []
+          return {
+            ...state,
+            stats: calculateStats(sessions, state.streakSettings ?? DEFAULT_STREAK_SETTINGS),
+            pendingSessions: sessions,
+          }
+        }
+        return state
+      },
+      // A profile without stored data starts empty instead of keeping the previous profile's state
+      merge: (persistedState, currentState) => ({
+        ...currentState,
+        ...emptyProfileState,
+        ...(persistedState as Partial<StatsStore> | undefined),
+      }),
       partialize: (state) => ({
-        stats: state.stats,
+        stats: { ...state.stats, sessions: [] },
+        pendingSessions: state.pendingSessions,
+        levelChanges: state.levelChanges,
+        trainingDays: state.trainingDays,
+        trainingSessions: state.trainingSessions,
+        streakSettings: state.streakSettings,
         achievements: state.achievements.map(a => ({
           ...a,
           condition: undefined, // Don't persist functions
@@ -264,6 +434,7 @@ export const useStatsStore = create<StatsStore>()(
           // Restore condition functions after hydration
           state.achievements = restoreAchievementConditions(state.achievements)
         }
+        state?.loadHistory()
       },
     }
   )
@@ -8,7 +8,11 @@ export interface GameState {
   gamePhase: GamePhase
   waitingForResponse: boolean
   responseDeadline: number | null
+  stimulusOnset: number | null // When the current stimulus was presented
+  awaitingNextSince: number | null // performance.now() when self-paced play started waiting for "next"
+  arithmeticInput: string // Answer being typed on the keypad in Arithmetic N-back
   responses: UserResponse[] // Track individual responses
+  trials: TrialRecord[] // Per-stimulus log for replay and re-scoring
   score: {
     positionCorrect: number
     positionIncorrect: number
@@ -19,18 +23,37 @@ export interface GameState {
     missedPositional: number
     missedAudio: number
     totalMissed: number
+    positionCorrectRejections: number
+    audioCorrectRejections: number
+    totalCorrectRejections: number
+    modalities?: Partial<Record<ResponseType, ModalityScore>> // Per-modality outcome counts; absent on older sessions
   }
   gameStartTime: number | null
   gameEndTime: number | null,
-  feedback: {
-    position?: boolean;
-    audio?: boolean;
-  };
+  reachedEnd: boolean // Whether the game ran to its last stimulus or its block's time budget, rather than being stopped
+  seed: number | null // Seed of the PRNG that generated this session's sequence
+  adaptiveAdjustments: AdaptiveAdjustmentRecord[]
+  feedback: Partial<Record<ResponseType, boolean>>
 }
 
-export interface GameSequence {
+export type TrialOutcome = 'hit' | 'falseAlarm' | 'miss' | 'correctRejection'
+
+/**
+ * How a scored trial relates to its target in one modality: a match, a repeat of the stimulus
+ * one step nearer (N-1 lure) or one step farther back (N+1 lure), or none of these
+ */
+export type TrialType = 'target' | 'nMinus1Lure' | 'nPlus1Lure' | 'neutral'
+
+export type ModalityScore = Record<TrialOutcome, number>
+
+export interface GameSequence extends Partial<Record<ResponseType, number>> {
   position: number // 0-8 for 3x3 grid
   audio: number // 0-7 for different audio tones
+  color?: number // Index into the stimulus color palette
+  shape?: number // Index into the stimulus shape set
+  audio2?: number // Index into the second audio channel's sounds
+  nBack?: number // Per-trial N cue (variable N-back); absent means the session's N
+  operation?: ArithmeticOperation // Operation cue (Arithmetic N-back)
   timestamp: number
 }
 
@@ -39,21 +62,89 @@ export interface GameSettings {
   totalRounds: number
   showVisual: boolean
   showAudio: boolean
+  showColor: boolean
+  showShape: boolean
+  showSecondAudio: boolean
   stimulusDuration: number // milliseconds
   interstimulusInterval: number // milliseconds
+  responseWindow: number // milliseconds to respond after the stimulus (extended timing)
+  feedbackDuration: number // milliseconds of feedback before the next stimulus (extended timing)
+  timingMode: TimingMode
   gridSize: 3 | 4 | 5
-  audioType: 'letters' | 'numbers' | 'tones'
+  audioType: AudioType
+  letterSet: LetterSet // Letters spoken when audioType is 'letters'
+  audioSoundCount: number // Distinct sounds per audio stream, drawn from the start of the alphabet
+  customWords: string[] // Words spoken when audioType is 'words'
+  samplePackId: string | null // Sample pack played when audioType is 'samples'
   volume: number
-  autoAdvance: boolean
+  autoAdvance: boolean // Off for self-paced play: wait for "next" after every trial
+  sequenceMode: SequenceMode
+  nBackMode: NBackMode
+  variableNMinimum: number // Lowest cued N in variable mode; the session's N is the highest
+  arithmeticMode: boolean // Type N-back number <op> current spoken number instead of matching audio
+  sessionLengthMode: SessionLengthMode
+  timedMinutes: number // Play budget of a timed training day
+  breakDuration: number // seconds of rest between blocks (timed sessions and training plans)
+  planBlocks: number // Blocks in a training plan
+  exactTargets: ExactTargetSettings // Target counts and spacing rules of the exact sequence mode
+  progression: ProgressionSettings
+}
+
+export interface ExactTargetSettings {
+  position: number // Trials where only position matches (color, shape and second audio get as many each)
+  audio: number // Trials where only audio matches
+  dual: number // Trials where position and audio both match
+  maxConsecutive: number // Most targets in a row for one modality
+  minGap: number // Fewest non-target trials between two runs of targets in one modality
+}
+
+export interface ProgressionSettings {
+  enabled: boolean
+  advanceErrorLimit: number // Raise N when every modality has fewer errors than this
+  fallbackErrorLimit: number // A session is poor when any modality has more errors than this
+  fallbackSessions: number // Consecutive poor sessions before N is lowered
+}
+
+export interface LevelChangeRecord {
+  date: number
+  sessionId: string
+  fromLevel: number
+  toLevel: number
+  reason: string
 }
 
 export interface UserResponse {
   type?: ResponseType
   responseTime: number
-  roundIndex: number
+  roundIndex: number // Scored round (1-based, excludes the first N stimuli)
+  stimulusIndex: number // Index into the session sequence
   correct: boolean 
 }
 
+export interface TrialResponse {
+  timestamp: number // performance.now() when the response was registered
+  reactionTime: number // milliseconds from stimulus onset
+  correct: boolean
+}
+
+export interface TrialRecord {
+  stimulusIndex: number
+  stimulus: GameSequence
+  targets: Partial<Record<ResponseType, boolean>> // Whether the stimulus was an N-back match per active modality
+  trialTypes?: Partial<Record<ResponseType, TrialType>> // Target/lure tag per active modality on scored trials; absent on older sessions
+  responses: Partial<Record<ResponseType, TrialResponse>>
+  onset: number // performance.now() when the stimulus was presented
+  selfPacedInterval?: number // milliseconds the player waited before continuing (self-paced mode)
+  arithmetic?: ArithmeticAnswer // Typed answer on scored trials of Arithmetic N-back
+}
+
+export interface ArithmeticAnswer {
+  expected: number
+  answer: number | null // null when nothing was submitted
+  correct: boolean
+  reactionTime?: number // milliseconds from stimulus onset to submitting the answer
+}
+
 export interface GameSession {
   id: string
   date: number
@@ -65,10 +156,75 @@ export interface GameSession {
   settings: GameSettings
   responses: UserResponse[]
   completed: boolean
+  adaptiveAdjustments?: AdaptiveAdjustmentRecord[]
+  sequence?: GameSequence[]
+  trials?: TrialRecord[]
+  performanceTimeOrigin?: number // performance.timeOrigin, maps trial onsets to wall-clock time
+  seed?: number // Replaying this seed with the same settings regenerates the sequence
+  trainingDayId?: string // Training day this block belongs to (timed sessions)
+  trainingSessionId?: string // Training plan session this block belongs to
+  trainingBlock?: number // 1-based block number within the training day or plan
+}
+
+export interface TrainingDay {
+  id: string
+  date: number // When the first block started
+  targetDuration: number // milliseconds of play the day aims for
+  sessionIds: string[] // Blocks in play order, each saved as its own GameSession
+  playTime: number // milliseconds played across blocks
+  completed: boolean // Whether the target duration was reached
+}
+
+/**
+ * A training plan: K blocks of 20 + N trials with N adjusted between blocks
+ */
+export interface TrainingSession {
+  id: string
+  date: number // When the first block started
+  plannedBlocks: number
+  sessionIds: string[] // Blocks in play order, each saved as its own GameSession
+  levels: number[] // N of each block in play order (the N trajectory)
+  completed: boolean // Whether every planned block was played
+}
+
+/**
+ * In-progress timed training day or training plan, kept by the game store between blocks
+ */
+export interface BlockSessionProgress {
+  kind: Exclude<SessionLengthMode, 'rounds'>
+  id: string
+  startedAt: number
+  targetDuration: number // milliseconds (timed)
+  plannedBlocks: number // (plan)
+  playedTime: number // milliseconds played in finished blocks
+  blockCount: number // Finished blocks
+  levels: number[] // N of each finished block
+  breakEndsAt: number | null // Date.now() when the current break ends
+  completed: boolean
+}
+
+export interface AdaptiveAdjustmentRecord {
+  timestamp: number
+  stimulusIndex: number // Stimulus index at which the new config took effect
+  round: number
+  accuracy: number // Snapshot accuracy that triggered the update (0-100)
+  action: 'increase' | 'decrease' | 'maintain'
+  reason: string
+  positionMatchRate: number
+  audioMatchRate: number
+  overlapBonus: number
+}
+
+/**
+ * How training days are counted for streaks
+ */
+export interface StreakSettings {
+  freezeDays: number // Missed days in a row a streak survives; they do not add to its length
+  timeZone: string | null // IANA timezone that decides where a day ends; null follows the device
 }
 
 export interface Statistics {
-  sessions: GameSession[]
+  sessions: GameSession[] // Loaded from IndexedDB; not persisted with the other statistics
   totalGamesPlayed: number
   averageScore: number
   bestScore: number
@@ -89,15 +245,58 @@ export interface AudioTone {
   name: string
 }
 
+/**
+ * A player on a shared device; settings, history and achievements are kept per profile
+ */
+export interface Profile {
+  id: string
+  name: string
+  createdAt: number
+}
+
+/**
+ * Whether the selected sample pack is decoded in memory; 'none' when no pack is needed or chosen
+ */
+export type SamplePackStatus = 'none' | 'loading' | 'ready' | 'missing'
+
+/**
+ * A named set of imported audio clips, played in file-name order
+ */
+export interface SamplePack {
+  id: string
+  name: string
+  sampleNames: string[] // File names without extension, one per clip
+  createdAt: number
+}
+
+export interface StimulusShape {
+  name: string
+  path: string // SVG path in a 24×24 view box
+}
+
 export interface GridPosition {
   row: number
   col: number
   index: number
 }
 
-export type GamePhase = 'preparation' | 'waiting' | 'stimulus' | 'response' | 'feedback' | 'completed'
+export type GamePhase = 'preparation' | 'waiting' | 'stimulus' | 'response' | 'feedback' | 'awaitingNext' | 'break' | 'completed'
+
+export type ResponseType = 'position' | 'color' | 'shape' | 'audio' | 'audio2'
+
+export type SequenceMode = 'static' | 'adaptive' | 'exact'
+
+export type AudioType = 'letters' | 'numbers' | 'tones' | 'words' | 'samples'
+
+export type LetterSet = 'standard' | 'classic' | 'alphabet'
+
+export type TimingMode = 'extended' | 'classic'
+
+export type SessionLengthMode = 'rounds' | 'timed' | 'plan'
+
+export type ArithmeticOperation = 'add' | 'subtract' | 'multiply'
 
-export type ResponseType = 'position' | 'audio'
+export type NBackMode = 'fixed' | 'variable' | 'crab'
 
 export type DifficultyLevel = 'beginner' | 'intermediate' | 'advanced' | 'expert'
 
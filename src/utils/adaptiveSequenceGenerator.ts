@@ -1,6 +1,8 @@
-import { GameSequence } from '../types/game'
-import { PerformanceSnapshot } from './gameLogic'
+import { AdaptiveAdjustmentRecord, ArithmeticOperation, GameSequence, ResponseType } from '../types/game'
+import { PerformanceSnapshot, TargetIndexFunction, nBackTargetIndex } from './gameLogic'
 import { shuffleArray } from './gameLogic'
+import { DEFAULT_AUDIO_SOUND_COUNT, getModalityValueCount, getSequenceModalities } from './modalities'
+import { RandomSource } from './random'
 
 /**
  * Configuration for adaptive sequence generation
@@ -15,6 +17,19 @@ export interface AdaptiveConfig {
   maxConsecutive: number
   minGap: number
   overlapBonus: number
+  modalities: ResponseType[] // Extra modalities to generate alongside position and audio
+  minimumN: number // Lowest cued N in variable N-back; equal to nLevel for a fixed N
+  getTargetIndex: TargetIndexFunction // Which earlier stimulus each new one is compared with
+  operations: ArithmeticOperation[] // Operations cued in Arithmetic N-back; empty otherwise
+  audioSoundCount: number // Sounds each audio stream draws from
+}
+
+/**
+ * Adjustment applied for one performance snapshot and why
+ */
+export interface AdaptiveDecision {
+  action: AdaptiveAdjustmentRecord['action']
+  reason: string
 }
 
 /**
@@ -22,13 +37,9 @@ export interface AdaptiveConfig {
  */
 interface GeneratorState {
   generatedCount: number
-  recentPositions: number[]
-  recentAudios: number[]
+  recentValues: Partial<Record<ResponseType, number[]>>
   currentConfig: AdaptiveConfig
-  nextSegmentMatches: {
-    position: Set<number>
-    audio: Set<number>
-  }
+  nextSegmentMatches: Partial<Record<ResponseType, Set<number>>>
 }
 
 /**
@@ -37,30 +48,82 @@ interface GeneratorState {
  */
 export class AdaptiveSequenceGenerator {
   private state: GeneratorState
-  private maxPosition: number
-  private maxAudio: number
+  private streams: ResponseType[]
   private baseSequence: GameSequence[] = []
+  private random: RandomSource
 
-  constructor(config: AdaptiveConfig) {
-    this.maxPosition = config.gridSize * config.gridSize - 1
-    this.maxAudio = 7 // 8 different audio tones (0-7)
-    
-    this.state = {
-      generatedCount: 0,
-      recentPositions: [],
-      recentAudios: [],
-      currentConfig: { ...config },
-      nextSegmentMatches: {
-        position: new Set(),
-        audio: new Set()
-      }
-    }
+  constructor(config: AdaptiveConfig, random: RandomSource = Math.random) {
+    this.random = random
+    this.streams = getSequenceModalities(config.modalities)
+    this.state = this.createState(config)
 
     // Generate initial n-level stimuli (no matches possible)
     this.generateInitialStimuli()
     this.planNextSegment()
   }
 
+  /**
+   * Create an empty generator state for the given config
+   */
+  private createState(config: AdaptiveConfig): GeneratorState {
+    return {
+      generatedCount: 0,
+      recentValues: Object.fromEntries(this.streams.map(modality => [modality, []])),
+      currentConfig: { ...config },
+      nextSegmentMatches: Object.fromEntries(this.streams.map(modality => [modality, new Set<number>()])),
+    }
+  }
+
+  /**
+   * Random value for a modality, drawn from its full range
+   */
+  private randomValue(modality: ResponseType): number {
+    return Math.floor(this.random() * getModalityValueCount(modality, this.state.currentConfig.gridSize, this.state.currentConfig.audioSoundCount))
+  }
+
+  /**
+   * Target match rate of a modality; extra modalities use the mean of the position and audio rates
+   */
+  private getTargetMatchRate(modality: ResponseType): number {
+    const { targetPositionMatchRate, targetAudioMatchRate } = this.state.currentConfig
+    if (modality === 'position') return targetPositionMatchRate
+    if (modality === 'audio') return targetAudioMatchRate
+    return (targetPositionMatchRate + targetAudioMatchRate) / 2
+  }
+
+  /**
+   * Draw the N cue for the next scored stimulus; only variable N-back uses cues
+   */
+  private drawCue(): number | undefined {
+    const { nLevel, minimumN } = this.state.currentConfig
+    return minimumN < nLevel ? minimumN + Math.floor(this.random() * (nLevel - minimumN + 1)) : undefined
+  }
+
+  /**
+   * Draw the operation cue for the next scored stimulus in Arithmetic N-back
+   */
+  private drawOperation(): ArithmeticOperation | undefined {
+    const { operations } = this.state.currentConfig
+    return operations.length > 0 ? operations[Math.floor(this.random() * operations.length)] : undefined
+  }
+
+  /**
+   * The stimulus a new stimulus at `currentIndex` is compared with, if any
+   */
+  private getTargetStimulus(currentIndex: number, cue: number | undefined): GameSequence | null {
+    const { nLevel, getTargetIndex } = this.state.currentConfig
+    return currentIndex >= nLevel ? this.baseSequence[getTargetIndex(currentIndex, nLevel, cue)] ?? null : null
+  }
+
+  /**
+   * Store a generated stimulus and update the per-modality history
+   */
+  private pushStimulus(stimulus: GameSequence): void {
+    this.baseSequence.push(stimulus)
+    this.streams.forEach(modality => this.state.recentValues[modality]?.push(stimulus[modality] as number))
+    this.state.generatedCount++
+  }
+
   /**
    * Generate the first n stimuli where no matches are possible
    */
@@ -68,16 +131,12 @@ export class AdaptiveSequenceGenerator {
     const { nLevel } = this.state.currentConfig
     
     for (let i = 0; i < nLevel; i++) {
-      const stimulus: GameSequence = {
-        position: Math.floor(Math.random() * (this.maxPosition + 1)),
-        audio: Math.floor(Math.random() * (this.maxAudio + 1)),
-        timestamp: Date.now() + i * 3000,
-      }
-      
-      this.baseSequence.push(stimulus)
-      this.state.recentPositions.push(stimulus.position)
-      this.state.recentAudios.push(stimulus.audio)
-      this.state.generatedCount++
+      const stimulus: GameSequence = { position: 0, audio: 0, timestamp: 0 } // Timestamp will be set during gameplay
+      this.streams.forEach(modality => {
+        stimulus[modality] = this.randomValue(modality)
+      })
+
+      this.pushStimulus(stimulus)
     }
   }
 
@@ -85,40 +144,27 @@ export class AdaptiveSequenceGenerator {
    * Plan matches for the next segment based on current config
    */
   private planNextSegment(): void {
-    const { segmentSize, targetPositionMatchRate, targetAudioMatchRate } = this.state.currentConfig
+    const { segmentSize } = this.state.currentConfig
     const startIndex = this.state.generatedCount
-    
-    // Calculate target matches for this segment
-    const targetPositionMatches = Math.round(segmentSize * targetPositionMatchRate)
-    const targetAudioMatches = Math.round(segmentSize * targetAudioMatchRate)
-    
-    // Clear previous segment planning
-    this.state.nextSegmentMatches.position.clear()
-    this.state.nextSegmentMatches.audio.clear()
-    
-    // Plan position matches
-    if (targetPositionMatches > 0) {
-      const positionIndices = this.selectMatchIndices(segmentSize, targetPositionMatches)
-      positionIndices.forEach(idx => 
-        this.state.nextSegmentMatches.position.add(startIndex + idx)
-      )
-    }
-    
-    // Plan audio matches (with some overlap control)
-    if (targetAudioMatches > 0) {
-      const audioIndices = this.selectMatchIndices(segmentSize, targetAudioMatches)
-      audioIndices.forEach(idx => 
-        this.state.nextSegmentMatches.audio.add(startIndex + idx)
-      )
-    }
+    const plannedIndices: Partial<Record<ResponseType, number[]>> = {}
+
+    this.streams.forEach(modality => {
+      // Calculate target matches for this segment and clear the previous plan
+      const targetMatches = Math.round(segmentSize * this.getTargetMatchRate(modality))
+      const planned = new Set<number>()
+
+      if (targetMatches > 0) {
+        this.selectMatchIndices(segmentSize, targetMatches).forEach(idx => planned.add(startIndex + idx))
+      }
+
+      this.state.nextSegmentMatches[modality] = planned
+      plannedIndices[modality] = Array.from(planned)
+    })
 
     console.log('🎯 Planned Next Segment:', {
       startIndex,
       segmentSize,
-      targetPositionMatches,
-      targetAudioMatches,
-      positionIndices: Array.from(this.state.nextSegmentMatches.position),
-      audioIndices: Array.from(this.state.nextSegmentMatches.audio)
+      plannedIndices,
     })
   }
 
@@ -127,7 +173,7 @@ export class AdaptiveSequenceGenerator {
    */
   private selectMatchIndices(segmentSize: number, targetMatches: number): number[] {
     const indices = Array.from({ length: segmentSize }, (_, i) => i)
-    const shuffled = shuffleArray(indices)
+    const shuffled = shuffleArray(indices, this.random)
     return shuffled.slice(0, targetMatches)
   }
 
@@ -143,57 +189,44 @@ export class AdaptiveSequenceGenerator {
       return this.baseSequence[currentIndex]
     }
 
-    // Generate new stimulus
-    const shouldPositionMatch = this.state.nextSegmentMatches.position.has(currentIndex)
-    const shouldAudioMatch = this.state.nextSegmentMatches.audio.has(currentIndex)
-    
-    let position: number
-    let audio: number
-
-    if (shouldPositionMatch && currentIndex >= nLevel) {
-      position = this.baseSequence[currentIndex - nLevel].position
-    } else {
-      // Generate non-matching position
-      do {
-        position = Math.floor(Math.random() * (this.maxPosition + 1))
-      } while (
-        currentIndex >= nLevel && 
-        position === this.baseSequence[currentIndex - nLevel].position
-      )
+    // Generate new stimulus, matching or avoiding the N-back value per modality
+    const cue = this.drawCue()
+    const nBackStimulus = this.getTargetStimulus(currentIndex, cue)
+    const stimulus: GameSequence = { position: 0, audio: 0, timestamp: 0 } // Timestamp will be set during gameplay
+    if (cue !== undefined) {
+      stimulus.nBack = cue
     }
-
-    if (shouldAudioMatch && currentIndex >= nLevel) {
-      audio = this.baseSequence[currentIndex - nLevel].audio
-    } else {
-      // Generate non-matching audio
-      do {
-        audio = Math.floor(Math.random() * (this.maxAudio + 1))
-      } while (
-        currentIndex >= nLevel && 
-        audio === this.baseSequence[currentIndex - nLevel].audio
-      )
+    const operation = this.drawOperation()
+    if (operation !== undefined) {
+      stimulus.operation = operation
     }
+    const plannedMatches: ResponseType[] = []
 
-    const stimulus: GameSequence = {
-      position,
-      audio,
-      timestamp: Date.now() + currentIndex * 3000,
-    }
+    this.streams.forEach(modality => {
+      const nBackValue = nBackStimulus?.[modality]
+
+      if (nBackValue !== undefined && this.state.nextSegmentMatches[modality]?.has(currentIndex)) {
+        stimulus[modality] = nBackValue
+        plannedMatches.push(modality)
+        return
+      }
+
+      // Generate non-matching value
+      let value: number
+      do {
+        value = this.randomValue(modality)
+      } while (value === nBackValue)
+      stimulus[modality] = value
+    })
 
     // Store the generated stimulus
-    this.baseSequence.push(stimulus)
-    this.state.recentPositions.push(position)
-    this.state.recentAudios.push(audio)
-    this.state.generatedCount++
+    this.pushStimulus(stimulus)
 
     console.log('🎮 Generated Stimulus:', {
       index: currentIndex,
-      position,
-      audio,
-      shouldPositionMatch,
-      shouldAudioMatch,
-      nBackPosition: currentIndex >= nLevel ? this.baseSequence[currentIndex - nLevel].position : null,
-      nBackAudio: currentIndex >= nLevel ? this.baseSequence[currentIndex - nLevel].audio : null
+      stimulus,
+      plannedMatches,
+      nBackStimulus,
     })
 
     // Check if we need to plan the next segment
@@ -207,6 +240,7 @@ export class AdaptiveSequenceGenerator {
 
   /**
    * Peek at the next stimulus without advancing the generator
+   * Draws from the random source, so peeking changes what a seeded generator produces next
    */
   peekNextStimulus(): GameSequence {
     const currentIndex = this.state.generatedCount
@@ -216,53 +250,56 @@ export class AdaptiveSequenceGenerator {
     }
 
     // For peek, we need to simulate generation without advancing state
-    const shouldPositionMatch = this.state.nextSegmentMatches.position.has(currentIndex)
-    const shouldAudioMatch = this.state.nextSegmentMatches.audio.has(currentIndex)
-    const { nLevel } = this.state.currentConfig
-    
-    let position: number
-    let audio: number
-
-    if (shouldPositionMatch && currentIndex >= nLevel) {
-      position = this.baseSequence[currentIndex - nLevel].position
-    } else {
-      position = Math.floor(Math.random() * (this.maxPosition + 1))
+    const cue = this.drawCue()
+    const nBackStimulus = this.getTargetStimulus(currentIndex, cue)
+    const stimulus: GameSequence = { position: 0, audio: 0, timestamp: 0 } // Timestamp will be set during gameplay
+    if (cue !== undefined) {
+      stimulus.nBack = cue
     }
-
-    if (shouldAudioMatch && currentIndex >= nLevel) {
-      audio = this.baseSequence[currentIndex - nLevel].audio
-    } else {
-      audio = Math.floor(Math.random() * (this.maxAudio + 1))
+    const operation = this.drawOperation()
+    if (operation !== undefined) {
+      stimulus.operation = operation
     }
 
-    return {
-      position,
-      audio,
-      timestamp: Date.now() + currentIndex * 3000,
-    }
+    this.streams.forEach(modality => {
+      const nBackValue = nBackStimulus?.[modality]
+      stimulus[modality] = nBackValue !== undefined && this.state.nextSegmentMatches[modality]?.has(currentIndex)
+        ? nBackValue
+        : this.randomValue(modality)
+    })
+
+    return stimulus
   }
 
   /**
    * Update the generator configuration based on performance
+   * Returns the direction of the applied adjustment and the performance that caused it
    */
-  updateConfig(performanceSnapshot: PerformanceSnapshot): void {
+  updateConfig(performanceSnapshot: PerformanceSnapshot): AdaptiveDecision {
     const { accuracy, missedResponses, totalResponses } = performanceSnapshot
     const missedRate = totalResponses > 0 ? missedResponses / totalResponses : 0
+    const measured = `${accuracy.toFixed(0)}% accuracy with ${(missedRate * 100).toFixed(0)}% missed`
     
     // Calculate adjustments based on performance
     let matchRateMultiplier = 1.0
     let complexityAdjustment = 0
+    let action: AdaptiveDecision['action'] = 'maintain'
+    let reason = `Balanced performance (${measured})`
     
     // Performance-based adjustments
     if (accuracy > 85 && missedRate < 0.1) {
       // Excellent performance - increase difficulty
       matchRateMultiplier = 1.2
       complexityAdjustment = 0.05
+      action = 'increase'
+      reason = `Excellent performance (${measured})`
       console.log('🚀 Adaptive: Increasing difficulty - excellent performance')
     } else if (accuracy < 60 || missedRate > 0.3) {
       // Poor performance - decrease difficulty
       matchRateMultiplier = 0.8
       complexityAdjustment = -0.05
+      action = 'decrease'
+      reason = accuracy < 60 ? `Low accuracy (${measured})` : `Too many missed targets (${measured})`
       console.log('📉 Adaptive: Decreasing difficulty - poor performance')
     } else {
       console.log('✅ Adaptive: Maintaining difficulty - balanced performance')
@@ -293,6 +330,8 @@ export class AdaptiveSequenceGenerator {
       newAudioRate: newConfig.targetAudioMatchRate.toFixed(3),
       overlapBonus: newConfig.overlapBonus.toFixed(3)
     })
+
+    return { action, reason }
   }
 
   /**
@@ -307,9 +346,9 @@ export class AdaptiveSequenceGenerator {
       overlapCount: number
     }
   } {
-    const positionMatches = Array.from(this.state.nextSegmentMatches.position)
-    const audioMatches = Array.from(this.state.nextSegmentMatches.audio)
-    const overlap = positionMatches.filter(idx => this.state.nextSegmentMatches.audio.has(idx))
+    const positionMatches = Array.from(this.state.nextSegmentMatches.position ?? [])
+    const audioMatches = Array.from(this.state.nextSegmentMatches.audio ?? [])
+    const overlap = positionMatches.filter(idx => this.state.nextSegmentMatches.audio?.has(idx))
     
     return {
       generatedCount: this.state.generatedCount,
@@ -333,16 +372,8 @@ export class AdaptiveSequenceGenerator {
    * Reset the generator to initial state
    */
   reset(config: AdaptiveConfig): void {
-    this.state = {
-      generatedCount: 0,
-      recentPositions: [],
-      recentAudios: [],
-      currentConfig: { ...config },
-      nextSegmentMatches: {
-        position: new Set(),
-        audio: new Set()
-      }
-    }
+    this.streams = getSequenceModalities(config.modalities)
+    this.state = this.createState(config)
     this.baseSequence = []
     this.generateInitialStimuli()
     this.planNextSegment()
@@ -355,7 +386,13 @@ export class AdaptiveSequenceGenerator {
 export function createAdaptiveGenerator(
   nLevel: number = 2,
   gridSize: number = 3,
-  difficulty: 'easy' | 'medium' | 'hard' = 'medium'
+  difficulty: 'easy' | 'medium' | 'hard' = 'medium',
+  modalities: ResponseType[] = ['position', 'audio'],
+  random: RandomSource = Math.random,
+  minimumN: number = nLevel,
+  getTargetIndex: TargetIndexFunction = nBackTargetIndex,
+  operations: ArithmeticOperation[] = [],
+  audioSoundCount: number = DEFAULT_AUDIO_SOUND_COUNT
 ): AdaptiveSequenceGenerator {
   // Difficulty-based settings
   const difficultySettings = {
@@ -371,8 +408,13 @@ export function createAdaptiveGenerator(
     gridSize,
     difficulty,
     segmentSize: 5, // Generate 5 stimuli at a time
+    modalities,
+    minimumN,
+    getTargetIndex,
+    operations,
+    audioSoundCount,
     ...settings
   }
   
-  return new AdaptiveSequenceGenerator(config)
+  return new AdaptiveSequenceGenerator(config, random)
 }
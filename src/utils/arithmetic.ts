@@ -0,0 +1,115 @@
+import { ArithmeticOperation, GameSequence, TrialRecord } from '../types/game'
+import { TargetIndexFunction, nBackTargetIndex } from './gameLogic'
+
+/**
+ * Operations cued in Arithmetic N-back, applied as "N-back number <op> current number"
+ */
+export const ARITHMETIC_OPERATIONS: { id: ArithmeticOperation; symbol: string; label: string }[] = [
+  { id: 'add', symbol: '+', label: 'Add' },
+  { id: 'subtract', symbol: '−', label: 'Subtract' },
+  { id: 'multiply', symbol: '×', label: 'Multiply' },
+]
+
+/**
+ * Most digits the keypad accepts; answers range from -7 to 64
+ */
+export const MAX_ARITHMETIC_DIGITS = 2
+
+/**
+ * Symbol shown on the grid for an operation cue
+ */
+export const getOperationSymbol = (operation: ArithmeticOperation): string =>
+  ARITHMETIC_OPERATIONS.find(definition => definition.id === operation)?.symbol ?? '?'
+
+/**
+ * Spoken numbers used in Arithmetic N-back, whatever the audio alphabet size; keeps answers within two digits
+ */
+export const ARITHMETIC_NUMBER_COUNT = 8
+
+/**
+ * The number spoken for an audio value; spoken numbers run from 1 to ARITHMETIC_NUMBER_COUNT
+ */
+export const getSpokenNumberValue = (audio: number): number => audio + 1
+
+/**
+ * Applies an operation to the N-back number and the current number
+ */
+export const applyOperation = (operation: ArithmeticOperation, nBackNumber: number, currentNumber: number): number => {
+  switch (operation) {
+    case 'add':
+      return nBackNumber + currentNumber
+    case 'subtract':
+      return nBackNumber - currentNumber
+    case 'multiply':
+      return nBackNumber * currentNumber
+  }
+}
+
+/**
+ * Expected answer for the stimulus at `currentIndex`, or null while there is nothing to compare with
+ */
+export const getExpectedArithmeticAnswer = (
+  sequence: GameSequence[],
+  currentIndex: number,
+  nLevel: number,
+  getTargetIndex: TargetIndexFunction = nBackTargetIndex
+): number | null => {
+  const stimulus = sequence[currentIndex]
+  if (currentIndex < nLevel || !stimulus?.operation) return null
+
+  const target = sequence[getTargetIndex(currentIndex, nLevel, stimulus.nBack)]
+  if (!target) return null
+
+  return applyOperation(stimulus.operation, getSpokenNumberValue(target.audio), getSpokenNumberValue(stimulus.audio))
+}
+
+/**
+ * Builds the cue shown above the grid for a stimulus, e.g. "3", "+" or "3 ×"
+ * combining the variable N-back cue and the arithmetic operation
+ */
+export const formatTrialCue = (stimulus: GameSequence | undefined): string | undefined => {
+  if (!stimulus) return undefined
+  const parts = [stimulus.nBack?.toString(), stimulus.operation && getOperationSymbol(stimulus.operation)]
+    .filter((part): part is string => Boolean(part))
+  return parts.length > 0 ? parts.join(' ') : undefined
+}
+
+/**
+ * Applies one keypad key to the typed answer: digits append, '-' toggles the sign, 'Backspace' deletes
+ */
+export const editArithmeticInput = (input: string, key: string): string => {
+  if (key === 'Backspace') return input.slice(0, -1)
+  if (key === '-') return input.startsWith('-') ? input.slice(1) : `-${input}`
+  if (/^\d$/.test(key) && input.replace('-', '').length < MAX_ARITHMETIC_DIGITS) {
+    return `${input}${key}`
+  }
+  return input
+}
+
+/**
+ * Parses a typed answer, returning null when nothing usable was entered
+ */
+export const parseArithmeticInput = (input: string): number | null => {
+  return /^-?\d+$/.test(input) ? Number(input) : null
+}
+
+/**
+ * Counts answered and correct arithmetic trials in a trial log
+ */
+export const summarizeArithmetic = (trials: TrialRecord[]): {
+  total: number
+  answered: number
+  correct: number
+  accuracy: number
+} => {
+  const scored = trials.filter(trial => trial.arithmetic !== undefined)
+  const answered = scored.filter(trial => trial.arithmetic?.answer !== null).length
+  const correct = scored.filter(trial => trial.arithmetic?.correct).length
+
+  return {
+    total: scored.length,
+    answered,
+    correct,
+    accuracy: scored.length > 0 ? (correct / scored.length) * 100 : 0,
+  }
+}
@@ -0,0 +1,161 @@
+import { AudioTone, AudioType, GameSettings, LetterSet } from '../types/game'
+import { DEFAULT_AUDIO_SOUND_COUNT, getSecondAudioType } from './modalities'
+import { ARITHMETIC_NUMBER_COUNT } from './arithmetic'
+import { getLoadedSamplePack } from './samplePacks'
+
+/**
+ * Settings that decide which sounds an audio type plays
+ */
+export type AudioAlphabetSettings = Partial<Pick<GameSettings, 'letterSet' | 'customWords' | 'samplePackId'>>
+
+/**
+ * Display names of the audio types
+ */
+export const AUDIO_TYPE_LABELS: Record<AudioType, string> = {
+  tones: 'Musical Tones',
+  letters: 'Spoken Letters',
+  numbers: 'Spoken Numbers',
+  words: 'Custom Words',
+  samples: 'Sample Pack',
+}
+
+/**
+ * Letter sets for spoken letters; the classic set avoids letters that sound alike
+ */
+export const LETTER_SETS: { id: LetterSet; label: string; letters: string[] }[] = [
+  { id: 'standard', label: 'A–H', letters: ['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H'] },
+  { id: 'classic', label: 'Classic (C H K L Q R S T)', letters: ['C', 'H', 'K', 'L', 'Q', 'R', 'S', 'T'] },
+  { id: 'alphabet', label: 'Full alphabet (A–Z)', letters: Array.from({ length: 26 }, (_, i) => String.fromCharCode(65 + i)) },
+]
+
+// Enough numbers and tones for one per cell of the largest grid
+const LARGEST_ALPHABET = 25
+
+export const SPOKEN_NUMBERS = Array.from({ length: LARGEST_ALPHABET }, (_, i) => `${i + 1}`)
+
+const MAJOR_SCALE_STEPS = [0, 2, 4, 5, 7, 9, 11]
+const MAJOR_SCALE_NAMES = ['C', 'D', 'E', 'F', 'G', 'A', 'B']
+
+/**
+ * C major scale climbing from C4; the first octave is the original set of eight tones
+ */
+export const AUDIO_TONES: AudioTone[] = Array.from({ length: LARGEST_ALPHABET }, (_, i) => {
+  const octave = Math.floor(i / MAJOR_SCALE_STEPS.length)
+  const midiNote = 60 + octave * 12 + MAJOR_SCALE_STEPS[i % MAJOR_SCALE_STEPS.length]
+  return {
+    frequency: Math.round(440 * Math.pow(2, (midiNote - 69) / 12) * 100) / 100,
+    type: 'sine',
+    name: `${MAJOR_SCALE_NAMES[i % MAJOR_SCALE_NAMES.length]}${4 + octave}`,
+  }
+})
+
+export const MIN_AUDIO_SOUND_COUNT = 2
+
+export const MAX_AUDIO_SOUND_COUNT = 26
+
+export const MAX_CUSTOM_WORDS = 50
+
+export const MAX_CUSTOM_WORD_LENGTH = 30
+
+/**
+ * Cleans a custom word list: trims entries and drops blanks and case-insensitive repeats,
+ * since two entries that sound the same would play as a match
+ */
+export const normalizeCustomWords = (words: string[]): string[] => {
+  const seen = new Set<string>()
+  return words
+    .map(word => word.trim())
+    .filter(word => {
+      const key = word.toLowerCase()
+      if (word === '' || seen.has(key)) return false
+      seen.add(key)
+      return true
+    })
+}
+
+const getLetterSet = (letterSet: LetterSet | undefined) =>
+  LETTER_SETS.find(set => set.id === letterSet) ?? LETTER_SETS[0]
+
+/**
+ * Every sound an audio type can play, in order, as spoken text or tone names
+ * A custom word list with fewer than two usable words, or a sample pack that is not loaded,
+ * falls back to the standard letters; games with sample audio only start once the pack is loaded
+ */
+export const getAudioAlphabet = (audioType: AudioType, settings: AudioAlphabetSettings): string[] => {
+  switch (audioType) {
+    case 'letters':
+      return getLetterSet(settings.letterSet).letters
+    case 'numbers':
+      return SPOKEN_NUMBERS
+    case 'tones':
+      return AUDIO_TONES.map(tone => tone.name)
+    case 'words': {
+      const words = normalizeCustomWords(settings.customWords ?? [])
+      return words.length >= MIN_AUDIO_SOUND_COUNT ? words : LETTER_SETS[0].letters
+    }
+    case 'samples':
+      return getLoadedSamplePack(settings.samplePackId)?.pack.sampleNames ?? LETTER_SETS[0].letters
+  }
+}
+
+/**
+ * Audio types played in a session: the main channel (numbers in Arithmetic N-back)
+ * and the second audio channel when it is on
+ */
+const getAudioChannels = (
+  settings: Pick<GameSettings, 'audioType'> & Partial<Pick<GameSettings, 'arithmeticMode' | 'showSecondAudio'>>
+): AudioType[] => [
+  settings.arithmeticMode ? 'numbers' : settings.audioType,
+  ...(settings.showSecondAudio ? [getSecondAudioType(settings.audioType)] : []),
+]
+
+/**
+ * Number of sounds the sequence generators draw from for both audio streams
+ * The requested count is capped by the smallest alphabet in play, and by the numbers 1–8 in Arithmetic N-back
+ */
+export const getAudioSoundCount = (
+  settings: Pick<GameSettings, 'audioType'> &
+    Partial<Pick<GameSettings, 'audioSoundCount' | 'arithmeticMode' | 'showSecondAudio'>> &
+    AudioAlphabetSettings
+): number => {
+  const available = Math.min(...getAudioChannels(settings).map(audioType => getAudioAlphabet(audioType, settings).length))
+  const requested = settings.arithmeticMode
+    ? Math.min(settings.audioSoundCount ?? DEFAULT_AUDIO_SOUND_COUNT, ARITHMETIC_NUMBER_COUNT)
+    : settings.audioSoundCount ?? DEFAULT_AUDIO_SOUND_COUNT
+  return Math.max(MIN_AUDIO_SOUND_COUNT, Math.min(requested, available))
+}
+
+/**
+ * Checks the audio settings against what the generators can play
+ * Returns one message per problem, empty when every requested sound is available
+ */
+export const validateAudioAlphabet = (settings: GameSettings): string[] => {
+  const problems: string[] = []
+
+  if (settings.audioType === 'words') {
+    const words = normalizeCustomWords(settings.customWords)
+    const entries = settings.customWords.map(word => word.trim()).filter(word => word !== '')
+    if (words.length < MIN_AUDIO_SOUND_COUNT) {
+      problems.push(`Add at least ${MIN_AUDIO_SOUND_COUNT} different words; spoken letters A–H play until then`)
+    } else if (entries.length > words.length) {
+      problems.push('Repeated words are played only once')
+    }
+  }
+
+  if (settings.audioType === 'samples' && !getLoadedSamplePack(settings.samplePackId)) {
+    problems.push('Choose a sample pack; games cannot start until one is loaded')
+  }
+
+  if (settings.arithmeticMode && settings.audioSoundCount > ARITHMETIC_NUMBER_COUNT) {
+    problems.push(`Arithmetic N-back only speaks the numbers 1–${ARITHMETIC_NUMBER_COUNT}`)
+  }
+
+  getAudioChannels(settings).forEach(audioType => {
+    const available = getAudioAlphabet(audioType, settings).length
+    if (settings.audioSoundCount > available) {
+      problems.push(`Only ${available} ${audioType} are available, so ${available} sounds are used instead of ${settings.audioSoundCount}`)
+    }
+  })
+
+  return problems
+}
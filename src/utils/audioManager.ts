@@ -1,4 +1,6 @@
-import { AudioTone } from '../types/game'
+import { AudioTone, AudioType } from '../types/game'
+import { AUDIO_TONES, AudioAlphabetSettings, getAudioAlphabet } from './audioAlphabet'
+import { getLoadedSamplePack } from './samplePacks'
 
 // Audio context for Web Audio API
 let audioContext: AudioContext | null = null
@@ -8,22 +10,6 @@ let masterGain: GainNode | null = null
 let preferredVoice: SpeechSynthesisVoice | null = null
 let voicesLoaded = false
 
-// Predefined audio tones
-const audioTones: AudioTone[] = [
-  { frequency: 261.63, type: 'sine', name: 'C4' },    // C4
-  { frequency: 293.66, type: 'sine', name: 'D4' },    // D4
-  { frequency: 329.63, type: 'sine', name: 'E4' },    // E4
-  { frequency: 349.23, type: 'sine', name: 'F4' },    // F4
-  { frequency: 392.00, type: 'sine', name: 'G4' },    // G4
-  { frequency: 440.00, type: 'sine', name: 'A4' },    // A4
-  { frequency: 493.88, type: 'sine', name: 'B4' },    // B4
-  { frequency: 523.25, type: 'sine', name: 'C5' },    // C5
-]
-
-// Spoken letters for audio mode
-const spokenLetters = ['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H']
-const spokenNumbers = ['1', '2', '3', '4', '5', '6', '7', '8']
-
 /**
  * Load and select the best available female voice
  */
@@ -124,7 +110,7 @@ export const playTone = async (
   duration: number = 500,
   volume: number = 0.5
 ): Promise<void> => {
-  if (toneIndex < 0 || toneIndex >= audioTones.length) {
+  if (toneIndex < 0 || toneIndex >= AUDIO_TONES.length) {
     console.warn(`Invalid tone index: ${toneIndex}`)
     return
   }
@@ -137,7 +123,7 @@ export const playTone = async (
       throw new Error('Audio context not available')
     }
 
-    const tone = audioTones[toneIndex]
+    const tone = AUDIO_TONES[toneIndex]
     const oscillator = audioContext.createOscillator()
     const gainNode = audioContext.createGain()
 
@@ -173,102 +159,45 @@ export const playTone = async (
 }
 
 /**
- * Play spoken letter using Speech Synthesis API with improved voice and timing
+ * Play a decoded audio clip through the master gain
+ * The clip starts on the audio clock straight away, so its onset does not depend on the speech engine
  */
-export const playSpokenLetter = async (
-  letterIndex: number,
-  volume: number = 0.5
-): Promise<void> => {
-  if (letterIndex < 0 || letterIndex >= spokenLetters.length) {
-    throw new Error(`Invalid letter index: ${letterIndex}`)
-  }
-
-  if (!('speechSynthesis' in window)) {
-    throw new Error('Speech synthesis not supported')
-  }
+export const playSample = async (buffer: AudioBuffer, volume: number = 0.5): Promise<void> => {
+  try {
+    initializeAudioContext()
+    await resumeAudioContext()
 
-  // Ensure voices are loaded and preferred voice is selected
-  await loadVoices()
+    if (!audioContext || !masterGain) {
+      throw new Error('Audio context not available')
+    }
 
-  // Cancel any ongoing speech to prevent overlapping
-  speechSynthesis.cancel()
+    const source = audioContext.createBufferSource()
+    const gainNode = audioContext.createGain()
+    source.buffer = buffer
+    gainNode.gain.value = volume
 
-  // Small delay to ensure clean start
-  await new Promise(resolve => setTimeout(resolve, 50))
+    source.connect(gainNode)
+    gainNode.connect(masterGain)
+    source.start(audioContext.currentTime)
 
-  return new Promise((resolve, reject) => {
-    try {
-      const utterance = new SpeechSynthesisUtterance(spokenLetters[letterIndex])
-      
-      // Use preferred voice if available
-      if (preferredVoice) {
-        utterance.voice = preferredVoice
-      }
-      
-      // Optimize speech parameters for clarity
-      utterance.volume = Math.max(0, Math.min(1, volume))
-      utterance.rate = 0.9  // Slightly slower for better pronunciation
-      utterance.pitch = 1.1 // Slightly higher pitch for female voice
-      utterance.lang = 'en-US' // Explicit language setting
-      
-      let resolved = false
-      const timeoutId = setTimeout(() => {
-        if (!resolved) {
-          resolved = true
-          speechSynthesis.cancel()
-          resolve()
-        }
-      }, 2000) // 2 second timeout to prevent hanging
-      
-      utterance.onstart = () => {
-        console.log(`Speaking letter: ${spokenLetters[letterIndex]}`)
-      }
-      
-      utterance.onend = () => {
-        if (!resolved) {
-          resolved = true
-          clearTimeout(timeoutId)
-          resolve()
-        }
-      }
-      
-      utterance.onerror = (event) => {
-        if (!resolved) {
-          resolved = true
-          clearTimeout(timeoutId)
-          console.warn(`Speech synthesis error: ${event.error}`)
-          resolve() // Resolve instead of reject to prevent game breaking
-        }
-      }
-      
-      // Start speaking with a small delay to ensure readiness
-      // Extra delay for the first letters to prevent cutoff
-      const delay = spokenLetters[letterIndex] === 'A' ? 200 : 100
-      setTimeout(() => {
-        // Ensure speech synthesis is ready
-        if (speechSynthesis.paused) {
-          speechSynthesis.resume()
-        }
-        speechSynthesis.speak(utterance)
-      }, delay)
-      
-    } catch (error) {
-      reject(error)
+    source.onended = () => {
+      source.disconnect()
+      gainNode.disconnect()
     }
-  })
+  } catch (error) {
+    console.error('Error playing sample:', error)
+  }
 }
 
 /**
- * Play spoken number using Speech Synthesis API with improved voice and timing
+ * Speak a letter, number or word using Speech Synthesis API with improved voice and timing
+ * `startDelay` gives the speech engine time to wake up; the first sound of an alphabet gets longer
  */
-export const playSpokenNumber = async (
-  numberIndex: number,
-  volume: number = 0.5
+export const playSpokenWord = async (
+  word: string,
+  volume: number = 0.5,
+  startDelay: number = 100
 ): Promise<void> => {
-  if (numberIndex < 0 || numberIndex >= spokenNumbers.length) {
-    throw new Error(`Invalid number index: ${numberIndex}`)
-  }
-
   if (!('speechSynthesis' in window)) {
     throw new Error('Speech synthesis not supported')
   }
@@ -284,7 +213,7 @@ export const playSpokenNumber = async (
 
   return new Promise((resolve, reject) => {
     try {
-      const utterance = new SpeechSynthesisUtterance(spokenNumbers[numberIndex])
+      const utterance = new SpeechSynthesisUtterance(word)
       
       // Use preferred voice if available
       if (preferredVoice) {
@@ -307,7 +236,7 @@ export const playSpokenNumber = async (
       }, 2000) // 2 second timeout to prevent hanging
       
       utterance.onstart = () => {
-        console.log(`Speaking number: ${spokenNumbers[numberIndex]}`)
+        console.log(`Speaking: ${word}`)
       }
       
       utterance.onend = () => {
@@ -328,15 +257,13 @@ export const playSpokenNumber = async (
       }
       
       // Start speaking with a small delay to ensure readiness
-      // Extra delay for the first numbers to prevent cutoff
-      const delay = spokenNumbers[numberIndex] === '1' ? 200 : 100
       setTimeout(() => {
         // Ensure speech synthesis is ready
         if (speechSynthesis.paused) {
           speechSynthesis.resume()
         }
         speechSynthesis.speak(utterance)
-      }, delay)
+      }, startDelay)
       
     } catch (error) {
       reject(error)
@@ -346,27 +273,33 @@ export const playSpokenNumber = async (
 
 /**
  * Play audio based on type and index
+ * Sample packs play their clips; a pack that is not loaded is spoken as letters instead
  */
 export const playAudioTone = async (
   audioIndex: number,
-  audioType: 'tones' | 'letters' | 'numbers' = 'tones',
+  audioType: AudioType = 'tones',
   duration: number = 500,
-  volume: number = 0.5
+  volume: number = 0.5,
+  alphabet: AudioAlphabetSettings = {}
 ): Promise<void> => {
   try {
-    switch (audioType) {
-      case 'tones':
-        await playTone(audioIndex, duration, volume)
-        break
-      case 'letters':
-        await playSpokenLetter(audioIndex, volume)
-        break
-      case 'numbers':
-        await playSpokenNumber(audioIndex, volume)
-        break
-      default:
-        throw new Error(`Unknown audio type: ${audioType}`)
+    if (audioType === 'tones') {
+      await playTone(audioIndex, duration, volume)
+      return
+    }
+
+    const sample = audioType === 'samples' ? getLoadedSamplePack(alphabet.samplePackId)?.buffers[audioIndex] : undefined
+    if (sample) {
+      await playSample(sample, volume)
+      return
+    }
+
+    const words = getAudioAlphabet(audioType, alphabet)
+    if (audioIndex < 0 || audioIndex >= words.length) {
+      throw new Error(`Invalid ${audioType} index: ${audioIndex}`)
     }
+    // Extra delay for the first sound of the alphabet to prevent cutoff
+    await playSpokenWord(words[audioIndex], volume, audioIndex === 0 ? 200 : 100)
   } catch (error) {
     console.error('Error playing audio:', error)
   }
@@ -398,32 +331,19 @@ export const getSelectedVoiceInfo = (): { name: string; lang: string } | null =>
  * Get available audio tones
  */
 export const getAudioTones = (): AudioTone[] => {
-  return [...audioTones]
-}
-
-/**
- * Get available spoken letters
- */
-export const getSpokenLetters = (): string[] => {
-  return [...spokenLetters]
-}
-
-/**
- * Get available spoken numbers
- */
-export const getSpokenNumbers = (): string[] => {
-  return [...spokenNumbers]
+  return [...AUDIO_TONES]
 }
 
 /**
  * Test audio functionality
  */
 export const testAudio = async (
-  audioType: 'tones' | 'letters' | 'numbers' = 'tones',
-  volume: number = 0.5
+  audioType: AudioType = 'tones',
+  volume: number = 0.5,
+  alphabet: AudioAlphabetSettings = {}
 ): Promise<boolean> => {
   try {
-    await playAudioTone(0, audioType, 500, volume)
+    await playAudioTone(0, audioType, 500, volume, alphabet)
     return true
   } catch (error) {
     console.error('Audio test failed:', error)
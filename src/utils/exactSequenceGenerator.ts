@@ -0,0 +1,233 @@
+import { ArithmeticOperation, ExactTargetSettings, GameSequence, ResponseType } from '../types/game'
+import { TargetIndexFunction, nBackTargetIndex, shuffleArray } from './gameLogic'
+import { DEFAULT_AUDIO_SOUND_COUNT, getModalityLabel, getModalityValueCount, getSequenceModalities } from './modalities'
+import { RandomSource } from './random'
+
+/**
+ * Modalities that match together on one trial, e.g. ['position', 'audio'] for a dual target
+ */
+type TargetEvent = ResponseType[]
+
+type SpacingRules = Pick<ExactTargetSettings, 'maxConsecutive' | 'minGap'>
+
+// Random placements tried before the best one is repaired
+const MAX_PLACEMENT_ATTEMPTS = 50
+
+// Swaps per scored trial the repair pass may try
+const REPAIR_STEPS_PER_TRIAL = 40
+
+/**
+ * Groups the configured targets into events placed together
+ * Position-only, audio-only and dual targets share trials exclusively; color, shape and
+ * second audio targets are placed independently, as many each as position-only targets
+ * The position/audio group always comes first, even when empty
+ */
+const getTargetEventGroups = (exactTargets: ExactTargetSettings, modalities: ResponseType[]): TargetEvent[][] => {
+  const hasPosition = modalities.includes('position')
+  const hasAudio = modalities.includes('audio')
+  const repeat = (event: TargetEvent, count: number): TargetEvent[] => Array.from({ length: count }, () => event)
+
+  const main = [
+    ...(hasPosition && hasAudio ? repeat(['position', 'audio'], exactTargets.dual) : []),
+    ...(hasPosition ? repeat(['position'], exactTargets.position) : []),
+    ...(hasAudio ? repeat(['audio'], exactTargets.audio) : []),
+  ]
+  const extras = modalities
+    .filter(modality => modality !== 'position' && modality !== 'audio')
+    .map(modality => repeat([modality], exactTargets.position))
+
+  return [main, ...extras]
+}
+
+/**
+ * Number of targets each active modality gets; dual targets count toward position and audio
+ */
+export const getExactTargetCounts = (
+  exactTargets: ExactTargetSettings,
+  modalities: ResponseType[]
+): Partial<Record<ResponseType, number>> => {
+  const counts: Partial<Record<ResponseType, number>> = {}
+  getTargetEventGroups(exactTargets, modalities).flat().flat().forEach(modality => {
+    counts[modality] = (counts[modality] ?? 0) + 1
+  })
+  return counts
+}
+
+/**
+ * Most targets one modality can have in `slotCount` trials under the spacing rules
+ */
+const getMaxTargets = (slotCount: number, { maxConsecutive, minGap }: SpacingRules): number => {
+  const period = maxConsecutive + minGap
+  return Math.floor(slotCount / period) * maxConsecutive + Math.min(maxConsecutive, slotCount % period)
+}
+
+/**
+ * Checks that the configured counts fit in a session of `rounds` scored trials
+ * Returns one message per problem, empty when the counts are feasible
+ */
+export const validateExactTargets = (
+  exactTargets: ExactTargetSettings,
+  rounds: number,
+  modalities: ResponseType[]
+): string[] => {
+  const errors: string[] = []
+  const [main] = getTargetEventGroups(exactTargets, modalities)
+
+  if (main.length > rounds) {
+    errors.push(`Position, audio and dual targets need ${main.length} trials but a session has ${rounds}`)
+  }
+
+  const maxTargets = getMaxTargets(rounds, exactTargets)
+  Object.entries(getExactTargetCounts(exactTargets, modalities)).forEach(([modality, count]) => {
+    if (count !== undefined && count > maxTargets) {
+      errors.push(`${getModalityLabel(modality as ResponseType)}: ${count} targets, but at most ${maxTargets} fit in ${rounds} trials with these spacing rules`)
+    }
+  })
+
+  return errors
+}
+
+/**
+ * Counts how far a modality's targets break the spacing rules: one per target beyond
+ * `maxConsecutive` in a run, plus one per trial a gap between runs falls short of `minGap`
+ */
+const countRuleViolations = (isTarget: boolean[], { maxConsecutive, minGap }: SpacingRules): number => {
+  let violations = 0
+  let run = 0
+  let gap: number | null = null // Non-target trials since the last target; null before the first one
+
+  isTarget.forEach(target => {
+    if (!target) {
+      run = 0
+      if (gap !== null) gap++
+      return
+    }
+    if (run === 0 && gap !== null && gap < minGap) violations += minGap - gap
+    run++
+    if (run > maxConsecutive) violations++
+    gap = 0
+  })
+
+  return violations
+}
+
+/**
+ * Places a group of target events on `slotCount` trials; the events must fit, see validateExactTargets
+ * Random shuffles are tried until one meets the spacing rules; failing that, the best shuffle is
+ * repaired by swapping trials, which keeps every count exact while removing violations
+ */
+const placeTargetEvents = (
+  events: TargetEvent[],
+  slotCount: number,
+  rules: SpacingRules,
+  random: RandomSource
+): (TargetEvent | null)[] => {
+  const modalities = Array.from(new Set(events.flat()))
+  const slots: (TargetEvent | null)[] = [...events, ...Array(Math.max(0, slotCount - events.length)).fill(null)]
+  const violationsOf = (plan: (TargetEvent | null)[]) => modalities.reduce(
+    (total, modality) => total + countRuleViolations(plan.map(event => event?.includes(modality) ?? false), rules),
+    0
+  )
+
+  let best = shuffleArray(slots, random)
+  let bestViolations = violationsOf(best)
+
+  for (let attempt = 1; attempt < MAX_PLACEMENT_ATTEMPTS && bestViolations > 0; attempt++) {
+    const plan = shuffleArray(slots, random)
+    const violations = violationsOf(plan)
+    if (violations < bestViolations) {
+      best = plan
+      bestViolations = violations
+    }
+  }
+
+  for (let step = 0; step < slotCount * REPAIR_STEPS_PER_TRIAL && bestViolations > 0; step++) {
+    const i = Math.floor(random() * slotCount)
+    const j = Math.floor(random() * slotCount)
+    if (best[i] === best[j]) continue
+
+    const plan = [...best]
+    plan[i] = best[j]
+    plan[j] = best[i]
+    const violations = violationsOf(plan)
+    // Accept sideways moves too, so the search can walk across plateaus
+    if (violations <= bestViolations) {
+      best = plan
+      bestViolations = violations
+    }
+  }
+
+  return best
+}
+
+/**
+ * Generates a sequence with exactly the configured number of targets per modality
+ * Only planned trials match; every other stimulus differs from the one it is compared with,
+ * so sessions of the same settings always carry the same number of targets
+ * `minimumN`, `getTargetIndex`, `operations` and `audioSoundCount` work as in generateGameSequence
+ */
+export const generateExactSequence = (
+  length: number,
+  gridSize: number,
+  nLevel: number,
+  modalities: ResponseType[],
+  exactTargets: ExactTargetSettings,
+  random: RandomSource = Math.random,
+  minimumN: number = nLevel,
+  getTargetIndex: TargetIndexFunction = nBackTargetIndex,
+  operations: ArithmeticOperation[] = [],
+  audioSoundCount: number = DEFAULT_AUDIO_SOUND_COUNT
+): GameSequence[] => {
+  const streams = getSequenceModalities(modalities)
+  const slotCount = Math.max(0, length - nLevel)
+
+  // Matching modalities per scored trial
+  const plan: ResponseType[][] = Array.from({ length: slotCount }, () => [])
+  getTargetEventGroups(exactTargets, modalities).forEach(events => {
+    placeTargetEvents(events, slotCount, exactTargets, random).forEach((event, slot) => {
+      if (event) plan[slot].push(...event)
+    })
+  })
+
+  const randomValue = (modality: ResponseType, exclude?: number): number => {
+    const count = getModalityValueCount(modality, gridSize, audioSoundCount)
+    let value: number
+    do {
+      value = Math.floor(random() * count)
+    } while (value === exclude && count > 1)
+    return value
+  }
+
+  const sequence: GameSequence[] = []
+
+  // The first N stimuli have nothing to match yet
+  for (let i = 0; i < nLevel; i++) {
+    const stimulus: GameSequence = { position: 0, audio: 0, timestamp: 0 } // Timestamp will be set during gameplay
+    streams.forEach(modality => { stimulus[modality] = randomValue(modality) })
+    sequence.push(stimulus)
+  }
+
+  plan.forEach((matches, slot) => {
+    const currentIndex = nLevel + slot
+    const cue = minimumN < nLevel ? minimumN + Math.floor(random() * (nLevel - minimumN + 1)) : undefined
+    const target = sequence[getTargetIndex(currentIndex, nLevel, cue)]
+    const stimulus: GameSequence = { position: 0, audio: 0, timestamp: 0 } // Timestamp will be set during gameplay
+    if (cue !== undefined) {
+      stimulus.nBack = cue
+    }
+    if (operations.length > 0) {
+      stimulus.operation = operations[Math.floor(random() * operations.length)]
+    }
+
+    streams.forEach(modality => {
+      const targetValue = target[modality]
+      stimulus[modality] = matches.includes(modality) && targetValue !== undefined
+        ? targetValue
+        : randomValue(modality, targetValue)
+    })
+
+    sequence.push(stimulus)
+  })
+
+  return sequence
+}
@@ -1,4 +1,6 @@
-import { GameSequence } from '../types/game'
+import { ArithmeticOperation, GameSequence, GameSettings, NBackMode, ResponseType, TrialRecord, TrialType } from '../types/game'
+import { RandomSource } from './random'
+import { DEFAULT_AUDIO_SOUND_COUNT, MODALITIES, ModalityDefinition, getModalityValueCount, getSequenceModalities } from './modalities'
 
 /**
  * Represents a snapshot of user performance for adaptive difficulty calculation
@@ -90,29 +92,61 @@ export const createPerformanceSnapshot = (
 }
 
 /**
- * Generates an engaging game sequence for the Dual N-Back game with balanced match opportunities
+ * Responses on the scored trials so far plus an unanswered entry for every missed target, oldest first
+ * Snapshots built from these still see a player who has stopped responding
+ */
+export const getSnapshotResponses = (trials: TrialRecord[], nLevel: number) =>
+  [...trials]
+    .filter(trial => trial.stimulusIndex >= nLevel)
+    .sort((a, b) => a.stimulusIndex - b.stimulusIndex)
+    .flatMap(trial => (Object.keys(trial.targets) as ResponseType[]).flatMap(modality => {
+      const response = trial.responses[modality]
+      if (response) return [{ type: modality, correct: response.correct, responseTime: response.reactionTime }]
+      return trial.targets[modality] ? [{ correct: false, responseTime: 0 }] : []
+    }))
+
+/**
+ * Generates an engaging game sequence for the N-Back game with balanced match opportunities
  * Based on research from dual n-back studies showing optimal engagement requires:
- * - 25-35% match rate for position
- * - 25-35% match rate for audio  
+ * - 25-35% match rate for each modality
  * - Alternating opportunities to maintain active engagement
  * - Strategic distribution to avoid long periods without matches
+ * Position and audio are always generated; `modalities` adds the extra streams to include
+ * Pass a seeded `random` source to reproduce a sequence exactly
+ * A `minimumN` below `nLevel` turns on variable N-back: each scored stimulus carries an N cue
+ * drawn from [minimumN, nLevel] and is compared with that many steps back
+ * `getTargetIndex` decides which earlier stimulus each one is compared with (see crab-back)
+ * Non-empty `operations` cue an arithmetic operation on every scored stimulus
+ * `audioSoundCount` sets how many sounds the audio streams draw from
  */
-export const generateGameSequence = (length: number, gridSize: number, nLevel: number = 2, difficulty: 'easy' | 'medium' | 'hard' = 'medium'): GameSequence[] => {
+export const generateGameSequence = (
+  length: number,
+  gridSize: number,
+  nLevel: number = 2,
+  difficulty: 'easy' | 'medium' | 'hard' = 'medium',
+  modalities: ResponseType[] = ['position', 'audio'],
+  random: RandomSource = Math.random,
+  minimumN: number = nLevel,
+  getTargetIndex: TargetIndexFunction = nBackTargetIndex,
+  operations: ArithmeticOperation[] = [],
+  audioSoundCount: number = DEFAULT_AUDIO_SOUND_COUNT
+): GameSequence[] => {
   const sequence: GameSequence[] = []
-  const maxPosition = gridSize * gridSize - 1
-  const maxAudio = 7 // 8 audio sounds (0-7)
+  const streams = getSequenceModalities(modalities)
+  const maxValues = Object.fromEntries(
+    streams.map(modality => [modality, getModalityValueCount(modality, gridSize, audioSoundCount) - 1])
+  ) as Record<ResponseType, number>
 
   // Difficulty-based match rates for optimal engagement
   const difficultySettings = {
-    easy: { positionMatchRate: 0.28, audioMatchRate: 0.28, lureRate: 0.08 },
-    medium: { positionMatchRate: 0.23, audioMatchRate: 0.23, lureRate: 0.12 },
-    hard: { positionMatchRate: 0.20, audioMatchRate: 0.20, lureRate: 0.15 },
+    easy: { matchRate: 0.28, lureRate: 0.08 },
+    medium: { matchRate: 0.23, lureRate: 0.12 },
+    hard: { matchRate: 0.20, lureRate: 0.15 },
   }
   const settings = difficultySettings[difficulty]
 
   // Anti-clustering system: track recent values to ensure variety
-  const recentPositions: number[] = []
-  const recentAudios: number[] = []
+  const recentValues = Object.fromEntries(streams.map(modality => [modality, []])) as unknown as Record<ResponseType, number[]>
   const antiClusterWindow = Math.min(4, Math.ceil(gridSize * 0.6)) // Dynamic window based on grid size
 
   /**
@@ -143,17 +177,17 @@ export const generateGameSequence = (length: number, gridSize: number, nLevel: n
     
     // Weighted random selection
     const totalWeight = weights.reduce((sum, weight) => sum + weight, 0)
-    let random = Math.random() * totalWeight
+    let threshold = random() * totalWeight
     
     for (let i = 0; i <= maxValue; i++) {
-      random -= weights[i]
-      if (random <= 0) {
+      threshold -= weights[i]
+      if (threshold <= 0) {
         return i
       }
     }
     
     // Fallback (should rarely happen)
-    return Math.floor(Math.random() * (maxValue + 1))
+    return Math.floor(random() * (maxValue + 1))
   }
 
   /**
@@ -168,152 +202,120 @@ export const generateGameSequence = (length: number, gridSize: number, nLevel: n
 
   // Step 1: Generate initial non-matching sequence (first N items)
   for (let i = 0; i < nLevel; i++) {
-    const position = generateAntiClusterValue(maxPosition, -1, recentPositions)
-    const audio = generateAntiClusterValue(maxAudio, -1, recentAudios)
-    
-    sequence.push({
-      position,
-      audio,
-      timestamp: 0 // Will be set during gameplay
+    const stimulus: GameSequence = { position: 0, audio: 0, timestamp: 0 } // Timestamp will be set during gameplay
+
+    streams.forEach(modality => {
+      const value = generateAntiClusterValue(maxValues[modality], -1, recentValues[modality])
+      stimulus[modality] = value
+      updateRecentValues(value, recentValues[modality])
     })
-    
-    updateRecentValues(position, recentPositions)
-    updateRecentValues(audio, recentAudios)
+
+    sequence.push(stimulus)
   }
 
   // Step 2: Generate remaining sequence with dynamic, non-predictable approach
   const remainingLength = length - nLevel
   
-  // Track recent match patterns to break up predictability
-  let recentPositionMatches = 0
-  let recentAudioMatches = 0
+  // Track recent match patterns per modality to break up predictability
+  const recentMatches = Object.fromEntries(streams.map(modality => [modality, 0])) as Record<ResponseType, number>
   let consecutiveNonMatches = 0
   const patternBreakWindow = Math.min(5, Math.ceil(remainingLength / 4))
   
   // Dynamic counters for balancing over the entire sequence
-  let totalPositionMatches = 0
-  let totalAudioMatches = 0
-  const targetPositionMatches = Math.round(remainingLength * settings.positionMatchRate)
-  const targetAudioMatches = Math.round(remainingLength * settings.audioMatchRate)
+  const totalMatches = Object.fromEntries(streams.map(modality => [modality, 0])) as Record<ResponseType, number>
+  const targetMatches = Math.round(remainingLength * settings.matchRate)
 
   // Step 3: Generate each stimulus dynamically with pattern-breaking logic
   for (let i = 0; i < remainingLength; i++) {
     const currentIndex = nLevel + i
-    const nBackStimulus = sequence[currentIndex - nLevel]
+    const cue = minimumN < nLevel ? minimumN + Math.floor(random() * (nLevel - minimumN + 1)) : undefined
+    const targetIndex = getTargetIndex(currentIndex, nLevel, cue)
+    const nBackStimulus = sequence[targetIndex]
+    const lureIndices = [targetIndex + 1, targetIndex - 1].filter(index => index >= 0 && index < currentIndex)
     const remainingStimuli = remainingLength - i
+    const recentWindow = Math.min(patternBreakWindow, i)
     
     // Calculate dynamic probabilities based on current state and remaining needs
-    let positionMatchProbability = 0
-    let audioMatchProbability = 0
-    
-    // Adjust probability based on how many matches we still need
-    const positionMatchesNeeded = targetPositionMatches - totalPositionMatches
-    const audioMatchesNeeded = targetAudioMatches - totalAudioMatches
-    
-    if (positionMatchesNeeded > 0 && remainingStimuli > 0) {
-      positionMatchProbability = Math.min(0.6, positionMatchesNeeded / remainingStimuli)
-    }
-    if (audioMatchesNeeded > 0 && remainingStimuli > 0) {
-      audioMatchProbability = Math.min(0.6, audioMatchesNeeded / remainingStimuli)
-    }
-    
-    // Pattern-breaking adjustments
-    const recentWindow = Math.min(patternBreakWindow, i)
-    if (recentWindow > 0) {
-      const recentPositionRate = recentPositionMatches / recentWindow
-      const recentAudioRate = recentAudioMatches / recentWindow
-      
-      // If we've had too many matches recently, reduce probability
-      if (recentPositionRate > settings.positionMatchRate * 1.5) {
-        positionMatchProbability *= 0.3
-      }
-      if (recentAudioRate > settings.audioMatchRate * 1.5) {
-        audioMatchProbability *= 0.3
-      }
-      
-      // If we've had too few matches recently, increase probability
-      if (recentPositionRate < settings.positionMatchRate * 0.5 && positionMatchesNeeded > 0) {
-        positionMatchProbability = Math.min(0.7, positionMatchProbability * 2)
+    const matchProbabilities = {} as Record<ResponseType, number>
+
+    streams.forEach(modality => {
+      // Adjust probability based on how many matches we still need
+      const matchesNeeded = targetMatches - totalMatches[modality]
+      let probability = matchesNeeded > 0 && remainingStimuli > 0
+        ? Math.min(0.6, matchesNeeded / remainingStimuli)
+        : 0
+
+      // Pattern-breaking adjustments
+      if (recentWindow > 0) {
+        const recentRate = recentMatches[modality] / recentWindow
+
+        // If we've had too many matches recently, reduce probability
+        if (recentRate > settings.matchRate * 1.5) {
+          probability *= 0.3
+        }
+
+        // If we've had too few matches recently, increase probability
+        if (recentRate < settings.matchRate * 0.5 && matchesNeeded > 0) {
+          probability = Math.min(0.7, probability * 2)
+        }
       }
-      if (recentAudioRate < settings.audioMatchRate * 0.5 && audioMatchesNeeded > 0) {
-        audioMatchProbability = Math.min(0.7, audioMatchProbability * 2)
+
+      // Prevent too many consecutive non-matches (engagement killer)
+      if (consecutiveNonMatches >= 4 && matchesNeeded > 0) {
+        probability = Math.max(0.4, probability)
       }
-    }
-    
-    // Prevent too many consecutive non-matches (engagement killer)
-    if (consecutiveNonMatches >= 4) {
-      if (positionMatchesNeeded > 0) positionMatchProbability = Math.max(0.4, positionMatchProbability)
-      if (audioMatchesNeeded > 0) audioMatchProbability = Math.max(0.4, audioMatchProbability)
-    }
+
+      matchProbabilities[modality] = probability
+    })
     
     // Prevent simultaneous matches too often (but allow occasionally for challenge)
-    if (Math.random() < positionMatchProbability && Math.random() < audioMatchProbability) {
-      // Both would match - randomly pick one (bias towards audio for variety)
-      if (Math.random() < 0.3) {
-        // Allow both (creates challenge)
-      } else if (Math.random() < 0.6) {
-        positionMatchProbability = 0 // Keep audio match
-      } else {
-        audioMatchProbability = 0 // Keep position match
-      }
+    const wouldMatch = streams.filter(modality => random() < matchProbabilities[modality])
+    if (wouldMatch.length > 1 && random() >= 0.3) {
+      // Keep a single randomly chosen match
+      const kept = wouldMatch[Math.floor(random() * wouldMatch.length)]
+      wouldMatch
+        .filter(modality => modality !== kept)
+        .forEach(modality => { matchProbabilities[modality] = 0 })
     }
     
     // Add some randomness to break predictability
-    const randomFactor = 0.7 + Math.random() * 0.6 // 0.7 to 1.3 multiplier
-    positionMatchProbability *= randomFactor
-    audioMatchProbability *= randomFactor
-    
+    const randomFactor = 0.7 + random() * 0.6 // 0.7 to 1.3 multiplier
+
     // Final decision on matches
-    const willPositionMatch = Math.random() < positionMatchProbability
-    const willAudioMatch = Math.random() < audioMatchProbability
-    
-    let position: number
-    let audio: number
-
-    // Generate position
-    if (willPositionMatch) {
-      position = nBackStimulus.position
-      totalPositionMatches++
-      recentPositionMatches++
-      consecutiveNonMatches = 0
-    } else {
-      // Add lure possibility for more challenge
-      if (nLevel > 1 && Math.random() < settings.lureRate && !willAudioMatch) {
-        const lureOffset = Math.random() < 0.7 ? 1 : 2
-        const lureIndex = currentIndex - nLevel + lureOffset
-        if (lureIndex >= 0 && lureIndex < sequence.length) {
-          position = sequence[lureIndex].position
-        } else {
-          position = generateAntiClusterValue(maxPosition, nBackStimulus.position, recentPositions)
-        }
-      } else {
-        position = generateAntiClusterValue(maxPosition, nBackStimulus.position, recentPositions)
-      }
+    const willMatch = streams.filter(modality => random() < matchProbabilities[modality] * randomFactor)
+    const stimulus: GameSequence = { position: 0, audio: 0, timestamp: 0 } // Timestamp will be set during gameplay
+    if (cue !== undefined) {
+      stimulus.nBack = cue
+    }
+    if (operations.length > 0) {
+      stimulus.operation = operations[Math.floor(random() * operations.length)]
     }
 
-    // Generate audio
-    if (willAudioMatch) {
-      audio = nBackStimulus.audio
-      totalAudioMatches++
-      recentAudioMatches++
-      consecutiveNonMatches = 0
-    } else {
-      // Add lure possibility for more challenge
-      if (nLevel > 1 && Math.random() < settings.lureRate && !willPositionMatch) {
-        const lureOffset = Math.random() < 0.7 ? 1 : 2
-        const lureIndex = currentIndex - nLevel + lureOffset
-        if (lureIndex >= 0 && lureIndex < sequence.length) {
-          audio = sequence[lureIndex].audio
-        } else {
-          audio = generateAntiClusterValue(maxAudio, nBackStimulus.audio, recentAudios)
-        }
+    streams.forEach(modality => {
+      const nBackValue = nBackStimulus[modality] ?? -1
+      let value: number
+
+      if (willMatch.includes(modality)) {
+        value = nBackValue
+        totalMatches[modality]++
+        recentMatches[modality]++
+      } else if (lureIndices.length > 0 && willMatch.length === 0 && random() < settings.lureRate) {
+        // Explicit lure: repeat the stimulus one step nearer (N-1) or farther back (N+1) than the target,
+        // unless that value happens to be the target's and would turn the lure into a match
+        const lureIndex = lureIndices[Math.floor(random() * lureIndices.length)]
+        const lureValue = sequence[lureIndex][modality]
+        value = lureValue !== undefined && lureValue !== nBackValue
+          ? lureValue
+          : generateAntiClusterValue(maxValues[modality], nBackValue, recentValues[modality])
       } else {
-        audio = generateAntiClusterValue(maxAudio, nBackStimulus.audio, recentAudios)
+        value = generateAntiClusterValue(maxValues[modality], nBackValue, recentValues[modality])
       }
-    }
+
+      stimulus[modality] = value
+    })
     
     // Track consecutive non-matches
-    if (!willPositionMatch && !willAudioMatch) {
+    if (willMatch.length === 0) {
       consecutiveNonMatches++
     } else {
       consecutiveNonMatches = 0
@@ -323,41 +325,55 @@ export const generateGameSequence = (length: number, gridSize: number, nLevel: n
     if (i >= patternBreakWindow) {
       // Remove the influence of the stimulus that's now outside our tracking window
       const oldIndex = currentIndex - patternBreakWindow
-      const oldNBackIndex = oldIndex - nLevel
+      const oldNBackIndex = getTargetIndex(oldIndex, nLevel, sequence[oldIndex].nBack)
       if (oldNBackIndex >= 0) {
-        const oldStimulus = sequence[oldIndex]
-        const oldNBackStimulus = sequence[oldNBackIndex]
-        if (oldStimulus.position === oldNBackStimulus.position) recentPositionMatches--
-        if (oldStimulus.audio === oldNBackStimulus.audio) recentAudioMatches--
+        streams.forEach(modality => {
+          if (sequence[oldIndex][modality] === sequence[oldNBackIndex][modality]) recentMatches[modality]--
+        })
       }
     }
 
-    sequence.push({
-      position,
-      audio,
-      timestamp: 0 // Will be set during gameplay
-    })
-
-    updateRecentValues(position, recentPositions)
-    updateRecentValues(audio, recentAudios)
+    sequence.push(stimulus)
+    streams.forEach(modality => updateRecentValues(stimulus[modality] as number, recentValues[modality]))
   }
 
   return sequence
 }
 
 
+/**
+ * Resolves which earlier stimulus the stimulus at `currentIndex` is compared with
+ * `cue` is the stimulus's own N cue in variable N-back
+ */
+export type TargetIndexFunction = (currentIndex: number, nLevel: number, cue?: number) => number
+
+/**
+ * Standard N-back: compare with the stimulus N steps back, or as many steps as the trial cues
+ */
+export const nBackTargetIndex: TargetIndexFunction = (currentIndex, nLevel, cue) => currentIndex - (cue ?? nLevel)
+
+/**
+ * Crab-back (Brain Workshop): each block of N stimuli is compared with the previous block
+ * in mirrored order, so the distance cycles 1, 3, 5, …, 2N-1 steps back
+ */
+export const crabBackTargetIndex: TargetIndexFunction = (currentIndex, nLevel) =>
+  currentIndex - 1 - 2 * (currentIndex % nLevel)
+
+/**
+ * Picks the target index function for an N-back mode
+ */
+export const getTargetIndexFunction = (nBackMode: NBackMode | undefined): TargetIndexFunction =>
+  nBackMode === 'crab' ? crabBackTargetIndex : nBackTargetIndex
+
 /**
  * Calculates if there should be a match for position at current index
  */
 export const shouldPositionMatch = (
   sequence: GameSequence[],
   currentIndex: number,
-  nLevel: number
-): boolean => {
-  const nBackIndex = currentIndex - nLevel
-  if (nBackIndex < 0) return false
-  return sequence[currentIndex].position === sequence[nBackIndex].position
-}
+  nLevel: number,
+  getTargetIndex: TargetIndexFunction = nBackTargetIndex
+): boolean => shouldModalityMatch(sequence, currentIndex, nLevel, 'position', getTargetIndex)
 
 /**
  * Calculates if there should be a match for audio at current index
@@ -365,11 +381,153 @@ export const shouldPositionMatch = (
 export const shouldAudioMatch = (
   sequence: GameSequence[],
   currentIndex: number,
-  nLevel: number
+  nLevel: number,
+  getTargetIndex: TargetIndexFunction = nBackTargetIndex
+): boolean => shouldModalityMatch(sequence, currentIndex, nLevel, 'audio', getTargetIndex)
+
+/**
+ * Calculates if there should be a match for the given modality at current index
+ * Stimuli that did not carry the modality never match
+ */
+export const shouldModalityMatch = (
+  sequence: GameSequence[],
+  currentIndex: number,
+  nLevel: number,
+  type: ResponseType,
+  getTargetIndex: TargetIndexFunction = nBackTargetIndex
 ): boolean => {
-  const nBackIndex = currentIndex - nLevel
+  if (currentIndex < nLevel) return false
+  const nBackIndex = getTargetIndex(currentIndex, nLevel, sequence[currentIndex]?.nBack)
   if (nBackIndex < 0) return false
-  return sequence[currentIndex].audio === sequence[nBackIndex].audio
+  const value = sequence[currentIndex][type]
+  return value !== undefined && value === sequence[nBackIndex][type]
+}
+
+/**
+ * Tags one modality of the stimulus at `currentIndex` as a target, an N-1 lure (matches the stimulus
+ * one step after the target), an N+1 lure (matches the one just before it) or neutral
+ * A value matching the target takes precedence over the lure tags
+ */
+export const getTrialType = (
+  sequence: GameSequence[],
+  currentIndex: number,
+  nLevel: number,
+  type: ResponseType,
+  getTargetIndex: TargetIndexFunction = nBackTargetIndex
+): TrialType => {
+  const value = sequence[currentIndex]?.[type]
+  if (currentIndex < nLevel || value === undefined) return 'neutral'
+
+  const targetIndex = getTargetIndex(currentIndex, nLevel, sequence[currentIndex].nBack)
+  const valueAt = (index: number) => index >= 0 && index < currentIndex ? sequence[index][type] : undefined
+
+  if (valueAt(targetIndex) === value) return 'target'
+  if (valueAt(targetIndex + 1) === value) return 'nMinus1Lure'
+  if (valueAt(targetIndex - 1) === value) return 'nPlus1Lure'
+  return 'neutral'
+}
+
+/**
+ * Display label for a trial type
+ */
+export const formatTrialType = (trialType: TrialType): string => {
+  switch (trialType) {
+    case 'target':
+      return 'Target'
+    case 'nMinus1Lure':
+      return 'N-1 lure'
+    case 'nPlus1Lure':
+      return 'N+1 lure'
+    case 'neutral':
+      return 'Neutral'
+  }
+}
+
+/**
+ * Returns the response modalities enabled by the current settings, in MODALITIES order
+ * Settings saved before a modality existed simply leave it disabled
+ * Arithmetic N-back answers the spoken number on the keypad, so audio is not a match modality there
+ */
+export const getActiveModalities = (
+  settings: Partial<Pick<GameSettings, ModalityDefinition['settingKey'] | 'arithmeticMode'>>
+): ResponseType[] => {
+  return MODALITIES
+    .filter(definition => settings[definition.settingKey])
+    .filter(definition => !(settings.arithmeticMode && definition.id === 'audio'))
+    .map(definition => definition.id)
+}
+
+/**
+ * Lowest N cued in the session; equal to `nLevel` unless variable N-back is on
+ */
+export const getMinimumN = (
+  settings: Pick<GameSettings, 'nBackMode' | 'variableNMinimum'>,
+  nLevel: number
+): number => {
+  return settings.nBackMode === 'variable' ? Math.max(1, Math.min(settings.variableNMinimum, nLevel)) : nLevel
+}
+
+/**
+ * Short label for the session's N, e.g. "3-Back", "1–3-Back" in variable mode or "3-Back Crab"
+ */
+export const formatNBackLabel = (
+  settings: Pick<GameSettings, 'nBackMode' | 'variableNMinimum'>,
+  nLevel: number
+): string => {
+  if (settings.nBackMode === 'crab') return `${nLevel}-Back Crab`
+  const minimumN = getMinimumN(settings, nLevel)
+  return minimumN < nLevel ? `${minimumN}–${nLevel}-Back` : `${nLevel}-Back`
+}
+
+/**
+ * Picks the settings that shape a generated sequence, so a seed can be replayed under the same conditions
+ */
+export const getSequenceSettings = (
+  settings: GameSettings
+): Pick<GameSettings, 'totalRounds' | 'gridSize' | 'sequenceMode' | 'nBackMode' | 'variableNMinimum' | 'arithmeticMode' | ModalityDefinition['settingKey']> & Partial<Pick<GameSettings, 'exactTargets' | 'audioType' | 'letterSet' | 'audioSoundCount' | 'customWords' | 'samplePackId'>> => ({
+  totalRounds: settings.totalRounds,
+  gridSize: settings.gridSize,
+  sequenceMode: settings.sequenceMode,
+  ...(settings.exactTargets && { exactTargets: { ...settings.exactTargets } }),
+  nBackMode: settings.nBackMode ?? 'fixed',
+  variableNMinimum: settings.variableNMinimum ?? 1,
+  arithmeticMode: settings.arithmeticMode ?? false,
+  showVisual: settings.showVisual,
+  showColor: settings.showColor ?? false,
+  showShape: settings.showShape ?? false,
+  showAudio: settings.showAudio,
+  showSecondAudio: settings.showSecondAudio ?? false,
+  // The audio alphabet decides how many sounds the audio streams draw from
+  ...(settings.audioType && { audioType: settings.audioType }),
+  ...(settings.letterSet && { letterSet: settings.letterSet }),
+  ...(settings.audioSoundCount !== undefined && { audioSoundCount: settings.audioSoundCount }),
+  ...(settings.customWords && { customWords: [...settings.customWords] }),
+  ...(settings.samplePackId && { samplePackId: settings.samplePackId }),
+})
+
+/**
+ * Returns how long the response window stays open, in milliseconds
+ * Classic timing accepts responses for the whole fixed-length trial (stimulus plus interval),
+ * extended timing opens a separate window once the stimulus has been shown
+ */
+export const getResponseWindowDuration = (
+  settings: Pick<GameSettings, 'timingMode' | 'stimulusDuration' | 'interstimulusInterval' | 'responseWindow'>
+): number => {
+  return settings.timingMode === 'classic'
+    ? settings.stimulusDuration + settings.interstimulusInterval
+    : settings.responseWindow
+}
+
+/**
+ * Scored rounds per block in a training plan; with the N warm-up stimuli a block has 20 + N trials
+ */
+export const PLAN_BLOCK_ROUNDS = 20
+
+/**
+ * Scored rounds in one game; training plan blocks follow the research protocol instead of the setting
+ */
+export const getRoundsPerGame = (settings: Pick<GameSettings, 'totalRounds' | 'sessionLengthMode'>): number => {
+  return settings.sessionLengthMode === 'plan' ? PLAN_BLOCK_ROUNDS : settings.totalRounds
 }
 
 /**
@@ -423,6 +581,25 @@ export const formatDuration = (milliseconds: number): string => {
   }
 }
 
+/**
+ * Summarizes how long the player paused between trials in self-paced play
+ */
+export const calculatePacingSummary = (
+  trials: TrialRecord[]
+): { count: number; average: number; longest: number; total: number } => {
+  const intervals = trials
+    .map(trial => trial.selfPacedInterval)
+    .filter((interval): interval is number => interval !== undefined)
+  const total = intervals.reduce((sum, interval) => sum + interval, 0)
+
+  return {
+    count: intervals.length,
+    average: intervals.length > 0 ? total / intervals.length : 0,
+    longest: intervals.length > 0 ? Math.max(...intervals) : 0,
+    total,
+  }
+}
+
 /**
  * Formats a number to a fixed number of decimal places
  */
@@ -484,10 +661,10 @@ export const getDifficultyLevel = (nLevel: number): string => {
 /**
  * Shuffles an array in place using Fisher-Yates algorithm
  */
-export const shuffleArray = <T>(array: T[]): T[] => {
+export const shuffleArray = <T>(array: T[], random: RandomSource = Math.random): T[] => {
   const shuffled = [...array]
   for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(random() * (i + 1));
     [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]]
   }
   return shuffled
@@ -0,0 +1,43 @@
+/**
+ * Resolves with the result of an IndexedDB request
+ */
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+/**
+ * Resolves once a transaction has committed
+ */
+export const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+
+/**
+ * Returns a function that opens a database once and hands out the same connection afterwards
+ * `upgrade` creates the object stores; it receives the version the database had before
+ * A failed open is retried on the next call
+ */
+export const createDatabaseOpener = (
+  name: string,
+  version: number,
+  upgrade: (db: IDBDatabase, oldVersion: number) => void
+): (() => Promise<IDBDatabase>) => {
+  let dbPromise: Promise<IDBDatabase> | null = null
+
+  return () => {
+    if (!dbPromise) {
+      const request = indexedDB.open(name, version)
+      request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion)
+      dbPromise = requestToPromise(request).catch(error => {
+        dbPromise = null
+        throw error
+      })
+    }
+    return dbPromise
+  }
+}
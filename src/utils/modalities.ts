@@ -0,0 +1,129 @@
+import { GameSequence, GameSettings, ResponseType, StimulusShape } from '../types/game'
+
+/**
+ * Describes one stimulus stream the player can track
+ */
+export interface ModalityDefinition {
+  id: ResponseType
+  label: string
+  settingKey: 'showVisual' | 'showColor' | 'showShape' | 'showAudio' | 'showSecondAudio'
+  keys: string[] // Lower-cased KeyboardEvent.key values that register a match
+  keyHint: string
+}
+
+/**
+ * All supported modalities, in presentation and response-button order
+ */
+export const MODALITIES: ModalityDefinition[] = [
+  { id: 'position', label: 'Position', settingKey: 'showVisual', keys: ['a', 'arrowleft'], keyHint: 'A' },
+  { id: 'color', label: 'Color', settingKey: 'showColor', keys: ['f'], keyHint: 'F' },
+  { id: 'shape', label: 'Shape', settingKey: 'showShape', keys: ['j'], keyHint: 'J' },
+  { id: 'audio', label: 'Audio', settingKey: 'showAudio', keys: ['l', 'arrowright'], keyHint: 'L' },
+  { id: 'audio2', label: 'Second Audio', settingKey: 'showSecondAudio', keys: [';'], keyHint: ';' },
+]
+
+// Square colors for the color modality
+export const STIMULUS_COLORS = [
+  '#e53935', // Red
+  '#fb8c00', // Orange
+  '#fdd835', // Yellow
+  '#43a047', // Green
+  '#00acc1', // Cyan
+  '#1e88e5', // Blue
+  '#8e24aa', // Purple
+  '#d81b60', // Pink
+]
+
+export const STIMULUS_COLOR_NAMES = ['Red', 'Orange', 'Yellow', 'Green', 'Cyan', 'Blue', 'Purple', 'Pink']
+
+// Shapes drawn inside the square for the shape modality
+export const STIMULUS_SHAPES: StimulusShape[] = [
+  { name: 'Circle', path: 'M12 3a9 9 0 1 0 0 18a9 9 0 1 0 0-18z' },
+  { name: 'Square', path: 'M4 4h16v16H4z' },
+  { name: 'Triangle', path: 'M12 3l10 18H2z' },
+  { name: 'Diamond', path: 'M12 2l9 10l-9 10l-9-10z' },
+  { name: 'Star', path: 'M12 2l2.9 6.6l7.1.6l-5.4 4.7l1.6 7.1L12 17.3L5.8 21l1.6-7.1L2 9.2l7.1-.6z' },
+  { name: 'Hexagon', path: 'M7 3h10l5 9l-5 9H7l-5-9z' },
+  { name: 'Cross', path: 'M9 2h6v7h7v6h-7v7H9v-7H2V9h7z' },
+  { name: 'Heart', path: 'M12 21l-1.5-1.3C5 15 2 12.2 2 8.5C2 5.4 4.4 3 7.5 3c1.7 0 3.4.8 4.5 2.1C13.1 3.8 14.8 3 16.5 3C19.6 3 22 5.4 22 8.5c0 3.7-3 6.5-8.5 11.2z' },
+]
+
+/**
+ * Sounds per audio stream when the settings do not say otherwise
+ */
+export const DEFAULT_AUDIO_SOUND_COUNT = 8
+
+/**
+ * Looks up the definition of a modality
+ */
+export const getModalityDefinition = (modality: ResponseType): ModalityDefinition =>
+  MODALITIES.find(definition => definition.id === modality) ?? MODALITIES[0]
+
+/**
+ * Returns the display label of a modality
+ */
+export const getModalityLabel = (modality: ResponseType): string => getModalityDefinition(modality).label
+
+/**
+ * Returns how many distinct values a modality draws from
+ * Both audio streams draw from the first `audioSoundCount` sounds of their alphabet
+ */
+export const getModalityValueCount = (
+  modality: ResponseType,
+  gridSize: number,
+  audioSoundCount: number = DEFAULT_AUDIO_SOUND_COUNT
+): number => {
+  switch (modality) {
+    case 'position':
+      return gridSize * gridSize
+    case 'color':
+      return STIMULUS_COLORS.length
+    case 'shape':
+      return STIMULUS_SHAPES.length
+    default:
+      return audioSoundCount
+  }
+}
+
+/**
+ * Modalities carried by every generated stimulus, in MODALITIES order
+ * Position and audio are always generated so each stimulus stays a complete GameSequence
+ */
+export const getSequenceModalities = (modalities: ResponseType[]): ResponseType[] => MODALITIES
+  .map(definition => definition.id)
+  .filter(id => id === 'position' || id === 'audio' || modalities.includes(id))
+
+/**
+ * Resolves what the grid shows for a stimulus
+ * Without the position modality the square stays in the center cell, so only color and shape vary
+ */
+export const getVisualStimulus = (
+  stimulus: GameSequence,
+  modalities: ResponseType[],
+  gridSize: number
+): { position: number; color?: number; shape?: number } => ({
+  position: modalities.includes('position') ? stimulus.position : Math.floor(gridSize * gridSize / 2),
+  color: modalities.includes('color') ? stimulus.color : undefined,
+  shape: modalities.includes('shape') ? stimulus.shape : undefined,
+})
+
+/**
+ * Whether any modality is shown on the grid
+ */
+export const hasVisualModality = (modalities: ResponseType[]): boolean =>
+  modalities.some(modality => modality === 'position' || modality === 'color' || modality === 'shape')
+
+/**
+ * The second audio channel plays tones alongside speech, or letters alongside tones,
+ * so the two channels never compete for the speech synthesizer
+ */
+export const getSecondAudioType = (audioType: GameSettings['audioType']): GameSettings['audioType'] =>
+  audioType === 'tones' ? 'letters' : 'tones'
+
+/**
+ * Names the game variant after the number of tracked modalities
+ */
+export const getModeName = (modalityCount: number): string => {
+  const names: Record<number, string> = { 1: 'Single', 2: 'Dual', 3: 'Triple', 4: 'Quad', 5: 'Quint' }
+  return `${names[modalityCount] ?? `${modalityCount}-Modality`} N-Back`
+}
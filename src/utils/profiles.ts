@@ -0,0 +1,45 @@
+import { StateStorage } from 'zustand/middleware'
+import { Profile } from '../types/game'
+
+/**
+ * The profile every device starts with; it owns the data stored before profiles existed
+ */
+export const DEFAULT_PROFILE_ID = 'default'
+
+export const MAX_PROFILE_NAME_LENGTH = 30
+
+/**
+ * Storage key (or database name) of a per-profile record
+ * The default profile keeps the unsuffixed keys so existing data stays where it is
+ */
+export const getProfileStorageKey = (name: string, profileId: string): string =>
+  profileId === DEFAULT_PROFILE_ID ? name : `${name}:${profileId}`
+
+/**
+ * Wraps a storage so each key is scoped to the profile that is active at the time of the call
+ */
+export const createProfileStorage = (storage: StateStorage, getProfileId: () => string): StateStorage => ({
+  getItem: (name) => storage.getItem(getProfileStorageKey(name, getProfileId())),
+  setItem: (name, value) => storage.setItem(getProfileStorageKey(name, getProfileId()), value),
+  removeItem: (name) => storage.removeItem(getProfileStorageKey(name, getProfileId())),
+})
+
+/**
+ * Trims a profile name and caps its length
+ */
+export const normalizeProfileName = (name: string): string => name.trim().slice(0, MAX_PROFILE_NAME_LENGTH)
+
+/**
+ * Creates a profile; an empty name falls back to a numbered one
+ */
+export const createProfile = (name: string, existing: Profile[]): Profile => ({
+  id: `profile_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+  name: normalizeProfileName(name) || `Player ${existing.length + 1}`,
+  createdAt: Date.now(),
+})
+
+export const createDefaultProfile = (): Profile => ({
+  id: DEFAULT_PROFILE_ID,
+  name: 'Player 1',
+  createdAt: Date.now(),
+})
@@ -0,0 +1,129 @@
+import { AudioType, GameSession, GameSettings, ResponseType } from '../types/game'
+import { getActiveModalities } from './gameLogic'
+import { MODALITIES } from './modalities'
+import { calculateModalityDetection } from './scoring'
+import { DayKey, addDays, getDayKey, getWeekday } from './trainingCalendar'
+
+export type ChartRange = 'week' | 'month' | 'quarter' | 'year' | 'all'
+
+/**
+ * Which sessions the progress charts include
+ */
+export interface ChartFilters {
+  range: ChartRange
+  gridSize: GameSettings['gridSize'] | 'all'
+  audioType: AudioType | 'all'
+}
+
+/**
+ * Minutes played in one calendar week
+ */
+export interface WeeklyPlayTime {
+  weekStart: DayKey // Monday the week starts on, in the streak timezone
+  minutes: number
+}
+
+/**
+ * One line of the per-modality trend chart; null where the modality was not played
+ */
+export interface ModalityTrend {
+  modality: ResponseType
+  dPrime: (number | null)[]
+}
+
+export const CHART_RANGES: { id: ChartRange; label: string; days: number | null }[] = [
+  { id: 'week', label: 'Last 7 days', days: 7 },
+  { id: 'month', label: 'Last 30 days', days: 30 },
+  { id: 'quarter', label: 'Last 90 days', days: 90 },
+  { id: 'year', label: 'Last year', days: 365 },
+  { id: 'all', label: 'All time', days: null },
+]
+
+export const DEFAULT_CHART_FILTERS: ChartFilters = { range: 'all', gridSize: 'all', audioType: 'all' }
+
+/**
+ * Local midnight `days` calendar days before `now`, so ranges line up with whole days across DST changes
+ */
+const getRangeStart = (days: number, now: number): number => {
+  const start = new Date(now)
+  start.setHours(0, 0, 0, 0)
+  start.setDate(start.getDate() - days + 1)
+  return start.getTime()
+}
+
+/**
+ * Sessions matching the filters, oldest first
+ */
+export const filterChartSessions = (
+  sessions: GameSession[],
+  filters: ChartFilters,
+  now: number = Date.now()
+): GameSession[] => {
+  const days = CHART_RANGES.find(range => range.id === filters.range)?.days ?? null
+  const from = days === null ? -Infinity : getRangeStart(days, now)
+
+  return sessions
+    .filter(session => session.date >= from)
+    .filter(session => filters.gridSize === 'all' || session.settings.gridSize === filters.gridSize)
+    .filter(session => filters.audioType === 'all' || session.settings.audioType === filters.audioType)
+    .sort((a, b) => a.date - b.date)
+}
+
+/**
+ * Grid sizes and audio types that occur in the history, for the filter menus
+ */
+export const getChartFilterOptions = (sessions: GameSession[]): { gridSizes: GameSettings['gridSize'][]; audioTypes: AudioType[] } => ({
+  gridSizes: [...new Set(sessions.map(session => session.settings.gridSize))].sort((a, b) => a - b),
+  audioTypes: [...new Set(sessions.map(session => session.settings.audioType))],
+})
+
+/**
+ * Mean d′ over the modalities played in a session
+ */
+export const getSessionMeanDPrime = (session: GameSession): number => {
+  const modalities = getActiveModalities(session.settings)
+  if (modalities.length === 0) return 0
+  return modalities.reduce((sum, modality) => sum + calculateModalityDetection(session.score, modality).dPrime, 0) / modalities.length
+}
+
+/**
+ * d′ per session for every modality played in at least one of the sessions, in MODALITIES order
+ */
+export const getModalityTrends = (sessions: GameSession[]): ModalityTrend[] => MODALITIES
+  .map(definition => ({
+    modality: definition.id,
+    dPrime: sessions.map(session => getActiveModalities(session.settings).includes(definition.id)
+      ? calculateModalityDetection(session.score, definition.id).dPrime
+      : null),
+  }))
+  .filter(trend => trend.dPrime.some(value => value !== null))
+
+/**
+ * The Monday that starts the week of `timestamp`, counting days in `timeZone` as streaks do
+ */
+export const getWeekStart = (timestamp: number, timeZone: string | null = null): DayKey => {
+  const day = getDayKey(timestamp, timeZone)
+  return addDays(day, -getWeekday(day))
+}
+
+/**
+ * Play time per calendar week from the first to the last session, including weeks without play
+ * Expects sessions oldest first, as returned by filterChartSessions
+ */
+export const getWeeklyPlayTime = (sessions: GameSession[], timeZone: string | null = null): WeeklyPlayTime[] => {
+  if (sessions.length === 0) return []
+
+  const minutesByWeek = new Map<DayKey, number>()
+  sessions.forEach(session => {
+    const week = getWeekStart(session.date, timeZone)
+    minutesByWeek.set(week, (minutesByWeek.get(week) ?? 0) + session.duration / 60000)
+  })
+
+  const weeks: WeeklyPlayTime[] = []
+  const lastWeek = getWeekStart(sessions[sessions.length - 1].date, timeZone)
+  // Day keys sort as text, so the loop stops at the last session's week
+  for (let week = getWeekStart(sessions[0].date, timeZone); week <= lastWeek; week = addDays(week, 7)) {
+    weeks.push({ weekStart: week, minutes: Math.round(minutesByWeek.get(week) ?? 0) })
+  }
+  return weeks
+}
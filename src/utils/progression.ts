@@ -0,0 +1,123 @@
+import { GameSession, ProgressionSettings, ResponseType } from '../types/game'
+import { getActiveModalities } from './gameLogic'
+import { calculateModalityDetection } from './scoring'
+
+/**
+ * Outcome of evaluating the progression policy after a session
+ */
+export interface ProgressionDecision {
+  action: 'advance' | 'fallback' | 'stay'
+  nextLevel: number
+  reason: string
+}
+
+export const MIN_N_LEVEL = 1
+
+export const MAX_N_LEVEL = 10
+
+/**
+ * Counts errors (false alarms plus misses) per active modality of a session
+ */
+export const countModalityErrors = (session: GameSession): Partial<Record<ResponseType, number>> => {
+  const errors: Partial<Record<ResponseType, number>> = {}
+  getActiveModalities(session.settings).forEach(modality => {
+    const { falseAlarms, misses } = calculateModalityDetection(session.score, modality)
+    errors[modality] = falseAlarms + misses
+  })
+  return errors
+}
+
+const formatErrors = (errors: Partial<Record<ResponseType, number>>): string =>
+  Object.entries(errors).map(([modality, count]) => `${modality} ${count}`).join(', ')
+
+/**
+ * Applies the classic Jaeggi-style progression rules to the session history
+ * - Advance when every active modality has fewer errors than the advance limit
+ * - Fall back when the last `fallbackSessions` sessions at the current level each
+ *   had a modality with more errors than the fallback limit
+ */
+export const evaluateProgression = (
+  sessions: GameSession[],
+  currentLevel: number,
+  settings: ProgressionSettings
+): ProgressionDecision => {
+  // Stopped games say nothing about the level, as in the statistics aggregates
+  const history = sessions.filter(session => session.completed).sort((a, b) => b.date - a.date)
+  const latest = history[0]
+
+  if (!latest || latest.nLevel !== currentLevel) {
+    return { action: 'stay', nextLevel: currentLevel, reason: 'No session at the current level' }
+  }
+
+  const latestErrors = countModalityErrors(latest)
+  const errorCounts = Object.values(latestErrors)
+
+  if (errorCounts.length > 0 && errorCounts.every(count => count < settings.advanceErrorLimit)) {
+    if (currentLevel >= MAX_N_LEVEL) {
+      return { action: 'stay', nextLevel: currentLevel, reason: 'Already at the highest level' }
+    }
+    return {
+      action: 'advance',
+      nextLevel: currentLevel + 1,
+      reason: `Fewer than ${settings.advanceErrorLimit} errors per modality (${formatErrors(latestErrors)})`,
+    }
+  }
+
+  // Count consecutive poor sessions at this level, most recent first
+  let poorSessions = 0
+  for (const session of history) {
+    if (session.nLevel !== currentLevel) break
+    const isPoor = Object.values(countModalityErrors(session)).some(count => count > settings.fallbackErrorLimit)
+    if (!isPoor) break
+    poorSessions++
+  }
+
+  if (poorSessions >= settings.fallbackSessions && currentLevel > MIN_N_LEVEL) {
+    return {
+      action: 'fallback',
+      nextLevel: currentLevel - 1,
+      reason: `More than ${settings.fallbackErrorLimit} errors in a modality for ${poorSessions} consecutive session(s)`,
+    }
+  }
+
+  return {
+    action: 'stay',
+    nextLevel: currentLevel,
+    reason: poorSessions > 0
+      ? `${poorSessions} of ${settings.fallbackSessions} poor session(s) before falling back`
+      : 'Errors within thresholds',
+  }
+}
+
+/**
+ * Picks the next block's level inside a training plan from that block's errors alone
+ * - Advance when every active modality has fewer errors than the advance limit
+ * - Fall back when any modality has more errors than the fallback limit
+ */
+export const evaluateBlockProgression = (
+  block: GameSession,
+  settings: ProgressionSettings
+): ProgressionDecision => {
+  const errors = countModalityErrors(block)
+  const errorCounts = Object.values(errors)
+
+  if (errorCounts.length > 0 && errorCounts.every(count => count < settings.advanceErrorLimit)) {
+    return block.nLevel >= MAX_N_LEVEL
+      ? { action: 'stay', nextLevel: block.nLevel, reason: 'Already at the highest level' }
+      : {
+        action: 'advance',
+        nextLevel: block.nLevel + 1,
+        reason: `Fewer than ${settings.advanceErrorLimit} errors per modality (${formatErrors(errors)})`,
+      }
+  }
+
+  if (errorCounts.some(count => count > settings.fallbackErrorLimit) && block.nLevel > MIN_N_LEVEL) {
+    return {
+      action: 'fallback',
+      nextLevel: block.nLevel - 1,
+      reason: `More than ${settings.fallbackErrorLimit} errors in a modality (${formatErrors(errors)})`,
+    }
+  }
+
+  return { action: 'stay', nextLevel: block.nLevel, reason: `Errors within thresholds (${formatErrors(errors)})` }
+}
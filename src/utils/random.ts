@@ -0,0 +1,54 @@
+/**
+ * A source of uniformly distributed numbers in [0, 1), interchangeable with Math.random
+ */
+export type RandomSource = () => number
+
+const MAX_SEED = 0xffffffff
+
+/**
+ * Creates a deterministic PRNG (mulberry32) from a 32-bit seed
+ * The same seed always yields the same stream of numbers
+ */
+export const createSeededRandom = (seed: number): RandomSource => {
+  let state = seed >>> 0
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Picks a fresh random seed for a new session
+ */
+export const generateSeed = (): number => Math.floor(Math.random() * MAX_SEED)
+
+/**
+ * Parses a seed typed by the user
+ * Whole numbers are used as-is, any other text is hashed (FNV-1a) so words can be shared as seeds
+ */
+export const parseSeed = (input: string): number | null => {
+  const trimmed = input.trim()
+  if (trimmed === '') return null
+
+  if (/^\d+$/.test(trimmed)) {
+    const value = Number(trimmed)
+    return value <= MAX_SEED ? value : null
+  }
+
+  let hash = 0x811c9dc5
+  for (let i = 0; i < trimmed.length; i++) {
+    hash ^= trimmed.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+/**
+ * Checks that a value is a usable 32-bit seed
+ */
+export const isValidSeed = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= MAX_SEED
@@ -0,0 +1,202 @@
+import { SamplePack } from '../types/game'
+import { ArchiveFile, readZipArchive } from './zipArchive'
+import { createDatabaseOpener, requestToPromise, transactionDone } from './indexedDb'
+
+/**
+ * A sample pack whose clips are decoded and ready to play
+ */
+export interface LoadedSamplePack {
+  pack: SamplePack
+  buffers: AudioBuffer[]
+}
+
+/**
+ * Decoded PCM of one clip, as stored in IndexedDB
+ * AudioBuffers cannot be stored directly, so they are rebuilt from their channel data on load
+ */
+interface StoredSample {
+  sampleRate: number
+  channels: Float32Array[]
+}
+
+interface StoredSamples {
+  packId: string
+  samples: StoredSample[]
+}
+
+const DB_NAME = 'dual-n-back-audio'
+const DB_VERSION = 1
+const PACK_STORE = 'samplePacks'
+const SAMPLE_STORE = 'samples'
+
+const SAMPLE_FILE_PATTERN = /\.(wav|ogg|mp3)$/i
+const ZIP_FILE_PATTERN = /\.zip$/i
+
+export const MIN_PACK_SAMPLES = 2
+
+export const MAX_PACK_SAMPLES = 50
+
+// Longer clips would run into the next stimulus
+export const MAX_SAMPLE_SECONDS = 3
+
+// Decoded packs, kept in memory so playback never waits on IndexedDB
+const loadedPacks = new Map<string, LoadedSamplePack>()
+
+const openDatabase = createDatabaseOpener(DB_NAME, DB_VERSION, db => {
+  db.createObjectStore(PACK_STORE, { keyPath: 'id' })
+  db.createObjectStore(SAMPLE_STORE, { keyPath: 'packId' })
+})
+
+const toStoredSample = (buffer: AudioBuffer): StoredSample => ({
+  sampleRate: buffer.sampleRate,
+  channels: Array.from({ length: buffer.numberOfChannels }, (_, channel) => buffer.getChannelData(channel).slice()),
+})
+
+const toAudioBuffer = ({ sampleRate, channels }: StoredSample): AudioBuffer => {
+  const buffer = new AudioBuffer({ length: channels[0]?.length || 1, numberOfChannels: channels.length || 1, sampleRate })
+  channels.forEach((data, channel) => buffer.copyToChannel(data, channel))
+  return buffer
+}
+
+/**
+ * Decodes a clip to 44.1 kHz PCM; decoding needs a context but never plays anything
+ */
+const decodeSample = (data: ArrayBuffer): Promise<AudioBuffer> => {
+  const context = new OfflineAudioContext(1, 1, 44100)
+  return context.decodeAudioData(data)
+}
+
+const getBaseName = (path: string): string => path.split('/').pop() ?? path
+
+const stripExtension = (name: string): string => name.replace(/\.[^.]+$/, '')
+
+/**
+ * Reads picked files, unpacking zip archives, and keeps the audio clips in file-name order
+ * Hidden files and macOS resource forks are skipped
+ */
+export const readSampleFiles = async (files: File[]): Promise<ArchiveFile[]> => {
+  const entries: ArchiveFile[] = []
+  for (const file of files) {
+    const data = await file.arrayBuffer()
+    const name = file.webkitRelativePath || file.name
+    if (ZIP_FILE_PATTERN.test(file.name)) {
+      entries.push(...await readZipArchive(data))
+    } else {
+      entries.push({ name, data })
+    }
+  }
+
+  return entries
+    .filter(entry => SAMPLE_FILE_PATTERN.test(entry.name))
+    .filter(entry => !getBaseName(entry.name).startsWith('.') && !entry.name.startsWith('__MACOSX/'))
+    .sort((a, b) => getBaseName(a.name).localeCompare(getBaseName(b.name), undefined, { numeric: true }))
+}
+
+/**
+ * Suggests a pack name from the picked folder or zip file
+ */
+export const getSamplePackName = (files: File[]): string => {
+  const [first] = files
+  if (!first) return 'Sample Pack'
+  return first.webkitRelativePath ? first.webkitRelativePath.split('/')[0] : stripExtension(first.name)
+}
+
+/**
+ * Decodes audio clips and stores them as a new sample pack
+ * Throws, naming the files, when a clip cannot be decoded or is too long,
+ * and when the pack would have too few or too many clips
+ */
+export const importSamplePack = async (name: string, files: ArchiveFile[]): Promise<LoadedSamplePack> => {
+  if (files.length > MAX_PACK_SAMPLES) {
+    throw new Error(`A sample pack can hold at most ${MAX_PACK_SAMPLES} clips, found ${files.length}`)
+  }
+
+  const buffers: AudioBuffer[] = []
+  const sampleNames: string[] = []
+  const failed: string[] = []
+  for (const file of files) {
+    try {
+      const buffer = await decodeSample(file.data)
+      if (buffer.duration > MAX_SAMPLE_SECONDS) {
+        failed.push(`${getBaseName(file.name)} (longer than ${MAX_SAMPLE_SECONDS}s)`)
+        continue
+      }
+      buffers.push(buffer)
+      sampleNames.push(stripExtension(getBaseName(file.name)))
+    } catch {
+      failed.push(getBaseName(file.name))
+    }
+  }
+
+  if (failed.length > 0) {
+    throw new Error(`Could not use ${failed.join(', ')}`)
+  }
+  if (buffers.length < MIN_PACK_SAMPLES) {
+    throw new Error(`A sample pack needs at least ${MIN_PACK_SAMPLES} wav, ogg or mp3 clips`)
+  }
+
+  const pack: SamplePack = {
+    id: `pack_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+    name: name.trim() || 'Sample Pack',
+    sampleNames,
+    createdAt: Date.now(),
+  }
+  const stored: StoredSamples = { packId: pack.id, samples: buffers.map(toStoredSample) }
+
+  const db = await openDatabase()
+  const transaction = db.transaction([PACK_STORE, SAMPLE_STORE], 'readwrite')
+  transaction.objectStore(PACK_STORE).put(pack)
+  transaction.objectStore(SAMPLE_STORE).put(stored)
+  await transactionDone(transaction)
+
+  const loaded = { pack, buffers }
+  loadedPacks.set(pack.id, loaded)
+  return loaded
+}
+
+/**
+ * Lists the stored sample packs, oldest first, without loading their clips
+ */
+export const listSamplePacks = async (): Promise<SamplePack[]> => {
+  const db = await openDatabase()
+  const packs = await requestToPromise<SamplePack[]>(db.transaction(PACK_STORE).objectStore(PACK_STORE).getAll())
+  return packs.sort((a, b) => a.createdAt - b.createdAt)
+}
+
+/**
+ * Loads a sample pack into memory so it can be played; resolves null when it no longer exists
+ */
+export const loadSamplePack = async (packId: string): Promise<LoadedSamplePack | null> => {
+  const cached = loadedPacks.get(packId)
+  if (cached) return cached
+
+  const db = await openDatabase()
+  const transaction = db.transaction([PACK_STORE, SAMPLE_STORE])
+  const [pack, stored] = await Promise.all([
+    requestToPromise<SamplePack | undefined>(transaction.objectStore(PACK_STORE).get(packId)),
+    requestToPromise<StoredSamples | undefined>(transaction.objectStore(SAMPLE_STORE).get(packId)),
+  ])
+  if (!pack || !stored) return null
+
+  const loaded = { pack, buffers: stored.samples.map(toAudioBuffer) }
+  loadedPacks.set(packId, loaded)
+  return loaded
+}
+
+/**
+ * Returns a sample pack that is already in memory
+ */
+export const getLoadedSamplePack = (packId: string | null | undefined): LoadedSamplePack | undefined =>
+  packId ? loadedPacks.get(packId) : undefined
+
+/**
+ * Deletes a sample pack and its clips
+ */
+export const deleteSamplePack = async (packId: string): Promise<void> => {
+  const db = await openDatabase()
+  const transaction = db.transaction([PACK_STORE, SAMPLE_STORE], 'readwrite')
+  transaction.objectStore(PACK_STORE).delete(packId)
+  transaction.objectStore(SAMPLE_STORE).delete(packId)
+  await transactionDone(transaction)
+  loadedPacks.delete(packId)
+}
@@ -0,0 +1,323 @@
+import { GameState, ModalityScore, ResponseType, TrialOutcome, TrialRecord, TrialType } from '../types/game'
+
+/**
+ * Signal-detection metrics for a single modality
+ */
+export interface SignalDetectionMetrics {
+  hits: number
+  misses: number
+  falseAlarms: number
+  correctRejections: number
+  hitRate: number         // Observed hit rate (0-1)
+  falseAlarmRate: number  // Observed false-alarm rate (0-1)
+  dPrime: number          // Sensitivity, z(H) - z(F) on corrected rates
+  criterion: number       // Response bias c, -(z(H) + z(F)) / 2 on corrected rates
+}
+
+/**
+ * False alarms on the non-target trials of one type
+ */
+export interface FalseAlarmRate {
+  trials: number
+  falseAlarms: number
+  rate: number // 0-1
+}
+
+export type NonTargetTrialType = Exclude<TrialType, 'target'>
+
+export type { TrialOutcome } from '../types/game'
+
+/**
+ * Creates zeroed outcome counts for one modality
+ */
+export const createEmptyModalityScore = (): ModalityScore => ({
+  hit: 0,
+  falseAlarm: 0,
+  miss: 0,
+  correctRejection: 0,
+})
+
+/**
+ * Creates a zeroed game score
+ */
+export const createEmptyScore = (): GameState['score'] => ({
+  positionCorrect: 0,
+  positionIncorrect: 0,
+  audioCorrect: 0,
+  audioIncorrect: 0,
+  totalCorrect: 0,
+  totalIncorrect: 0,
+  missedPositional: 0,
+  missedAudio: 0,
+  totalMissed: 0,
+  positionCorrectRejections: 0,
+  audioCorrectRejections: 0,
+  totalCorrectRejections: 0,
+  modalities: {},
+})
+
+/**
+ * Recomputes the position/audio fields and cross-modality totals from the per-modality counts
+ * The flat fields are kept so older consumers and stored sessions read the same shape
+ */
+export const withScoreTotals = (score: GameState['score']): GameState['score'] => {
+  const modalities = score.modalities ?? {}
+  const countsFor = (modality: ResponseType): ModalityScore => modalities[modality] ?? createEmptyModalityScore()
+  const sumOf = (outcome: TrialOutcome): number =>
+    Object.values(modalities).reduce((total, counts) => total + (counts?.[outcome] ?? 0), 0)
+
+  return {
+    ...score,
+    positionCorrect: countsFor('position').hit,
+    positionIncorrect: countsFor('position').falseAlarm,
+    missedPositional: countsFor('position').miss,
+    positionCorrectRejections: countsFor('position').correctRejection,
+    audioCorrect: countsFor('audio').hit,
+    audioIncorrect: countsFor('audio').falseAlarm,
+    missedAudio: countsFor('audio').miss,
+    audioCorrectRejections: countsFor('audio').correctRejection,
+    totalCorrect: sumOf('hit'),
+    totalIncorrect: sumOf('falseAlarm'),
+    totalMissed: sumOf('miss'),
+    totalCorrectRejections: sumOf('correctRejection'),
+  }
+}
+
+/**
+ * Returns a copy of the score with one more outcome counted for the modality
+ */
+export const recordOutcome = (
+  score: GameState['score'],
+  modality: ResponseType,
+  outcome: TrialOutcome
+): GameState['score'] => {
+  const counts = { ...createEmptyModalityScore(), ...score.modalities?.[modality] }
+  counts[outcome]++
+
+  return withScoreTotals({
+    ...score,
+    modalities: { ...score.modalities, [modality]: counts },
+  })
+}
+
+/**
+ * Classifies a single modality of a logged trial
+ */
+export const getTrialOutcome = (trial: TrialRecord, modality: ResponseType): TrialOutcome => {
+  const isTarget = trial.targets[modality] ?? false
+  const responded = trial.responses[modality] !== undefined
+  if (responded) return isTarget ? 'hit' : 'falseAlarm'
+  return isTarget ? 'miss' : 'correctRejection'
+}
+
+/**
+ * Re-scores a session from its trial log, e.g. after a scoring-rule change
+ * Only trials past the first N stimuli are scored, matching live gameplay
+ */
+export const scoreTrialLog = (
+  trials: TrialRecord[],
+  nLevel: number,
+  modalities: ResponseType[]
+): GameState['score'] => {
+  return trials
+    .filter(trial => trial.stimulusIndex >= nLevel)
+    .reduce((score, trial) => modalities.reduce(
+      (modalityScore, modality) => recordOutcome(modalityScore, modality, getTrialOutcome(trial, modality)),
+      score
+    ), createEmptyScore())
+}
+
+/**
+ * Scores a variable N-back trial log separately for each cued N, lowest N first
+ * Trials without a cue count toward the session's N
+ */
+export const scoreTrialLogByNBack = (
+  trials: TrialRecord[],
+  nLevel: number,
+  modalities: ResponseType[]
+): { nBack: number; score: GameState['score'] }[] => {
+  const scored = trials.filter(trial => trial.stimulusIndex >= nLevel)
+  const cues = Array.from(new Set(scored.map(trial => trial.stimulus.nBack ?? nLevel))).sort((a, b) => a - b)
+
+  return cues.map(nBack => ({
+    nBack,
+    score: scoreTrialLog(scored.filter(trial => (trial.stimulus.nBack ?? nLevel) === nBack), nLevel, modalities),
+  }))
+}
+
+/**
+ * Splits the false-alarm rate by non-target trial type, so lure trials can be compared with neutral ones
+ * Counts every tagged modality unless `modality` is given; trials logged before tagging are skipped
+ */
+export const calculateLureFalseAlarms = (
+  trials: TrialRecord[],
+  modality?: ResponseType
+): Record<NonTargetTrialType, FalseAlarmRate> => {
+  const counts: Record<NonTargetTrialType, { trials: number; falseAlarms: number }> = {
+    nMinus1Lure: { trials: 0, falseAlarms: 0 },
+    nPlus1Lure: { trials: 0, falseAlarms: 0 },
+    neutral: { trials: 0, falseAlarms: 0 },
+  }
+
+  trials.forEach(trial => {
+    Object.entries(trial.trialTypes ?? {}).forEach(([tagged, trialType]) => {
+      if (trialType === undefined || trialType === 'target') return
+      if (modality !== undefined && tagged !== modality) return
+      counts[trialType].trials++
+      if (trial.responses[tagged as ResponseType] !== undefined) counts[trialType].falseAlarms++
+    })
+  })
+
+  const toRate = ({ trials, falseAlarms }: { trials: number; falseAlarms: number }): FalseAlarmRate => ({
+    trials,
+    falseAlarms,
+    rate: trials > 0 ? falseAlarms / trials : 0,
+  })
+
+  return {
+    nMinus1Lure: toRate(counts.nMinus1Lure),
+    nPlus1Lure: toRate(counts.nPlus1Lure),
+    neutral: toRate(counts.neutral),
+  }
+}
+
+/**
+ * Combined false-alarm rate over N-1 and N+1 lure trials
+ */
+export const combineLureFalseAlarms = (rates: Record<NonTargetTrialType, FalseAlarmRate>): FalseAlarmRate => {
+  const trials = rates.nMinus1Lure.trials + rates.nPlus1Lure.trials
+  const falseAlarms = rates.nMinus1Lure.falseAlarms + rates.nPlus1Lure.falseAlarms
+  return { trials, falseAlarms, rate: trials > 0 ? falseAlarms / trials : 0 }
+}
+
+/**
+ * Inverse of the standard normal CDF (Acklam's rational approximation)
+ * Accurate to about 1.15e-9 over the open interval (0, 1)
+ */
+export const inverseNormalCdf = (p: number): number => {
+  if (p <= 0) return -Infinity
+  if (p >= 1) return Infinity
+
+  const a = [-3.969683028665376e1, 2.209460984245205e2, -2.759285104469687e2, 1.38357751867269e2, -3.066479806614716e1, 2.506628277459239]
+  const b = [-5.447609879822406e1, 1.615858368580409e2, -1.556989798598866e2, 6.680131188771972e1, -1.328068155288572e1]
+  const c = [-7.784894002430293e-3, -3.223964580411365e-1, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783]
+  const d = [7.784695709041462e-3, 3.224671290700398e-1, 2.445134137142996, 3.754408661907416]
+  const pLow = 0.02425
+
+  if (p < pLow) {
+    const q = Math.sqrt(-2 * Math.log(p))
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1)
+  }
+
+  if (p > 1 - pLow) {
+    const q = Math.sqrt(-2 * Math.log(1 - p))
+    return -(((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1)
+  }
+
+  const q = p - 0.5
+  const r = q * q
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1)
+}
+
+/**
+ * Applies the 1/(2N) correction (Macmillan & Kaplan, 1985) so that rates of
+ * exactly 0 or 1 still yield a finite z-score
+ */
+export const correctExtremeRate = (count: number, total: number): number => {
+  if (total === 0) return 0.5
+  if (count === 0) return 0.5 / total
+  if (count === total) return (total - 0.5) / total
+  return count / total
+}
+
+/**
+ * Score of a session in percent: correct responses out of all responses and misses
+ * Correct rejections are left out, so a session without any response scores 0
+ */
+export const calculateSessionScore = (score: GameState['score']): number => {
+  const totalAttempts = score.totalCorrect + score.totalIncorrect + score.totalMissed
+  return totalAttempts > 0 ? (score.totalCorrect / totalAttempts * 100) : 0
+}
+
+/**
+ * Computes hit rate, false-alarm rate, d′ and criterion c from raw outcome counts
+ */
+export const calculateSignalDetection = (
+  hits: number,
+  misses: number,
+  falseAlarms: number,
+  correctRejections: number
+): SignalDetectionMetrics => {
+  const signalTrials = hits + misses
+  const noiseTrials = falseAlarms + correctRejections
+
+  const zHit = inverseNormalCdf(correctExtremeRate(hits, signalTrials))
+  const zFalseAlarm = inverseNormalCdf(correctExtremeRate(falseAlarms, noiseTrials))
+
+  return {
+    hits,
+    misses,
+    falseAlarms,
+    correctRejections,
+    hitRate: signalTrials > 0 ? hits / signalTrials : 0,
+    falseAlarmRate: noiseTrials > 0 ? falseAlarms / noiseTrials : 0,
+    dPrime: zHit - zFalseAlarm,
+    criterion: -(zHit + zFalseAlarm) / 2,
+  }
+}
+
+/**
+ * Computes signal-detection metrics for one modality of a game score
+ * Sessions saved before per-modality counts only carry the position and audio fields,
+ * and those saved before correct rejections were tracked count them as zero
+ */
+export const calculateModalityDetection = (
+  score: GameState['score'],
+  modality: ResponseType
+): SignalDetectionMetrics => {
+  const counts = score.modalities?.[modality]
+  if (counts) {
+    return calculateSignalDetection(counts.hit, counts.miss, counts.falseAlarm, counts.correctRejection)
+  }
+
+  if (modality === 'position') {
+    return calculateSignalDetection(
+      score.positionCorrect,
+      score.missedPositional,
+      score.positionIncorrect,
+      score.positionCorrectRejections ?? 0
+    )
+  }
+
+  if (modality === 'audio') {
+    return calculateSignalDetection(
+      score.audioCorrect,
+      score.missedAudio,
+      score.audioIncorrect,
+      score.audioCorrectRejections ?? 0
+    )
+  }
+
+  return calculateSignalDetection(0, 0, 0, 0)
+}
+
+/**
+ * Computes signal-detection metrics for each listed modality of a game score
+ */
+export const calculateSessionDetection = (
+  score: GameState['score'],
+  modalities: ResponseType[]
+): Partial<Record<ResponseType, SignalDetectionMetrics>> => Object.fromEntries(
+  modalities.map(modality => [modality, calculateModalityDetection(score, modality)])
+)
+
+/**
+ * Formats a d′ or criterion value with an explicit sign
+ */
+export const formatDetectionValue = (value: number, decimals: number = 2): string => {
+  const fixed = value.toFixed(decimals)
+  return value > 0 ? `+${fixed}` : fixed
+}
@@ -0,0 +1,78 @@
+import { GameSession } from '../types/game'
+import { createDatabaseOpener, requestToPromise, transactionDone } from './indexedDb'
+import { getProfileStorageKey } from './profiles'
+
+const DB_NAME = 'dual-n-back-history'
+const DB_VERSION = 1
+const SESSION_STORE = 'sessions'
+
+// Each profile has its own database, opened on first use
+const openers = new Map<string, () => Promise<IDBDatabase>>()
+
+const openDatabase = (profileId: string): Promise<IDBDatabase> => {
+  let opener = openers.get(profileId)
+  if (!opener) {
+    // Sessions are indexed by date and N-level so history can be read in order or per level
+    opener = createDatabaseOpener(getProfileStorageKey(DB_NAME, profileId), DB_VERSION, db => {
+      const store = db.createObjectStore(SESSION_STORE, { keyPath: 'id' })
+      store.createIndex('date', 'date')
+      store.createIndex('nLevel', 'nLevel')
+    })
+    openers.set(profileId, opener)
+  }
+  return opener()
+}
+
+/**
+ * Saves a session, replacing any stored session with the same id
+ */
+export const saveSession = async (profileId: string, session: GameSession): Promise<void> => {
+  await saveSessions(profileId, [session])
+}
+
+/**
+ * Saves many sessions in one transaction; sessions already stored under the same id are replaced
+ */
+export const saveSessions = async (profileId: string, sessions: GameSession[]): Promise<void> => {
+  if (sessions.length === 0) return
+  const db = await openDatabase(profileId)
+  const transaction = db.transaction(SESSION_STORE, 'readwrite')
+  const store = transaction.objectStore(SESSION_STORE)
+  sessions.forEach(session => store.put(session))
+  await transactionDone(transaction)
+}
+
+/**
+ * Loads every stored session, oldest first
+ */
+export const loadSessions = async (profileId: string): Promise<GameSession[]> => {
+  const db = await openDatabase(profileId)
+  const index = db.transaction(SESSION_STORE).objectStore(SESSION_STORE).index('date')
+  return requestToPromise<GameSession[]>(index.getAll())
+}
+
+/**
+ * Replaces the whole history, e.g. when statistics are imported or cleared
+ */
+export const replaceSessions = async (profileId: string, sessions: GameSession[]): Promise<void> => {
+  const db = await openDatabase(profileId)
+  const transaction = db.transaction(SESSION_STORE, 'readwrite')
+  const store = transaction.objectStore(SESSION_STORE)
+  store.clear()
+  sessions.forEach(session => store.put(session))
+  await transactionDone(transaction)
+}
+
+/**
+ * Deletes a profile's history database
+ */
+export const deleteSessionHistory = async (profileId: string): Promise<void> => {
+  // An open connection would block the deletion until the page closes
+  const opener = openers.get(profileId)
+  if (opener) {
+    openers.delete(profileId)
+    const db = await opener().catch(() => null)
+    db?.close()
+  }
+  await requestToPromise(indexedDB.deleteDatabase(getProfileStorageKey(DB_NAME, profileId)))
+}
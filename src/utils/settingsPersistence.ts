@@ -0,0 +1,154 @@
+import { ExactTargetSettings, GameSettings, ProgressionSettings } from '../types/game'
+import { isValidNLevel } from './gameLogic'
+import { MAX_AUDIO_SOUND_COUNT, MAX_CUSTOM_WORDS, MAX_CUSTOM_WORD_LENGTH, MIN_AUDIO_SOUND_COUNT } from './audioAlphabet'
+
+/**
+ * Current schema version of the persisted settings payload
+ * Bump this and add an entry to `settingsMigrations` whenever a stored field
+ * is renamed, removed or changes meaning
+ */
+export const SETTINGS_VERSION = 1
+
+/**
+ * Shape of the settings payload written to localStorage
+ */
+export interface PersistedGameSettings {
+  settings: GameSettings
+  nLevel: number
+}
+
+type Migration = (state: Record<string, unknown>) => Record<string, unknown>
+
+/**
+ * Migrations keyed by the version they upgrade to
+ */
+const settingsMigrations: Record<number, Migration> = {
+  // v0 -> v1: unversioned payloads only carried settings; lift the level out of them
+  1: (state) => ({
+    ...state,
+    nLevel: state.nLevel ?? (isRecord(state.settings) ? state.settings.nLevel : undefined),
+  }),
+}
+
+/**
+ * Upgrades a persisted settings payload from `version` to SETTINGS_VERSION
+ */
+export const migrateSettings = (persistedState: unknown, version: number): Record<string, unknown> => {
+  let state: Record<string, unknown> = isRecord(persistedState) ? { ...persistedState } : {}
+
+  for (let target = version + 1; target <= SETTINGS_VERSION; target++) {
+    const migration = settingsMigrations[target]
+    if (migration) {
+      state = migration(state)
+    }
+  }
+
+  return state
+}
+
+/**
+ * Whether a parsed JSON value is a plain object whose fields can be read and narrowed
+ */
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const pickNLevel = (value: unknown, fallback: number): number =>
+  typeof value === 'number' && isValidNLevel(value) ? value : fallback
+
+const clampNumber = (value: unknown, min: number, max: number, fallback: number, integer = false): number => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return fallback
+  const rounded = integer ? Math.round(value) : value
+  return Math.max(min, Math.min(max, rounded))
+}
+
+const pickOption = <T>(value: unknown, options: readonly T[], fallback: T): T =>
+  options.includes(value as T) ? (value as T) : fallback
+
+const pickBoolean = (value: unknown, fallback: boolean): boolean =>
+  typeof value === 'boolean' ? value : fallback
+
+const sanitizeProgression = (raw: unknown, defaults: ProgressionSettings): ProgressionSettings => {
+  const progression = isRecord(raw) ? raw : {}
+  const advanceErrorLimit = clampNumber(progression.advanceErrorLimit, 1, 10, defaults.advanceErrorLimit, true)
+
+  return {
+    enabled: pickBoolean(progression.enabled, defaults.enabled),
+    advanceErrorLimit,
+    fallbackErrorLimit: clampNumber(progression.fallbackErrorLimit, advanceErrorLimit, 20, Math.max(advanceErrorLimit, defaults.fallbackErrorLimit), true),
+    fallbackSessions: clampNumber(progression.fallbackSessions, 1, 5, defaults.fallbackSessions, true),
+  }
+}
+
+const sanitizeCustomWords = (raw: unknown, defaults: string[]): string[] => {
+  if (!Array.isArray(raw)) return defaults
+  return raw
+    .filter((word): word is string => typeof word === 'string')
+    .map(word => word.slice(0, MAX_CUSTOM_WORD_LENGTH))
+    .slice(0, MAX_CUSTOM_WORDS)
+}
+
+const sanitizeExactTargets = (raw: unknown, defaults: ExactTargetSettings): ExactTargetSettings => {
+  const exactTargets = isRecord(raw) ? raw : {}
+
+  return {
+    position: clampNumber(exactTargets.position, 0, 20, defaults.position, true),
+    audio: clampNumber(exactTargets.audio, 0, 20, defaults.audio, true),
+    dual: clampNumber(exactTargets.dual, 0, 20, defaults.dual, true),
+    maxConsecutive: clampNumber(exactTargets.maxConsecutive, 1, 5, defaults.maxConsecutive, true),
+    minGap: clampNumber(exactTargets.minGap, 0, 5, defaults.minGap, true),
+  }
+}
+
+/**
+ * Validates persisted settings, repairing missing, corrupted or out-of-range
+ * values with the matching default so the game always starts in a playable state
+ */
+export const sanitizeSettings = (raw: unknown, defaults: GameSettings): GameSettings => {
+  const settings = isRecord(raw) ? raw : {}
+
+  return {
+    nLevel: pickNLevel(settings.nLevel, defaults.nLevel),
+    totalRounds: clampNumber(settings.totalRounds, 10, 100, defaults.totalRounds, true),
+    showVisual: pickBoolean(settings.showVisual, defaults.showVisual),
+    showAudio: pickBoolean(settings.showAudio, defaults.showAudio),
+    showColor: pickBoolean(settings.showColor, defaults.showColor),
+    showShape: pickBoolean(settings.showShape, defaults.showShape),
+    showSecondAudio: pickBoolean(settings.showSecondAudio, defaults.showSecondAudio),
+    stimulusDuration: clampNumber(settings.stimulusDuration, 200, 2000, defaults.stimulusDuration, true),
+    interstimulusInterval: clampNumber(settings.interstimulusInterval, 1000, 5000, defaults.interstimulusInterval, true),
+    responseWindow: clampNumber(settings.responseWindow, 1000, 5000, defaults.responseWindow, true),
+    feedbackDuration: clampNumber(settings.feedbackDuration, 0, 2000, defaults.feedbackDuration, true),
+    timingMode: pickOption(settings.timingMode, ['extended', 'classic'] as const, defaults.timingMode),
+    gridSize: pickOption(settings.gridSize, [3, 4, 5] as const, defaults.gridSize),
+    audioType: pickOption(settings.audioType, ['letters', 'numbers', 'tones', 'words', 'samples'] as const, defaults.audioType),
+    letterSet: pickOption(settings.letterSet, ['standard', 'classic', 'alphabet'] as const, defaults.letterSet),
+    audioSoundCount: clampNumber(settings.audioSoundCount, MIN_AUDIO_SOUND_COUNT, MAX_AUDIO_SOUND_COUNT, defaults.audioSoundCount, true),
+    customWords: sanitizeCustomWords(settings.customWords, defaults.customWords),
+    samplePackId: typeof settings.samplePackId === 'string' ? settings.samplePackId : defaults.samplePackId,
+    volume: clampNumber(settings.volume, 0, 1, defaults.volume),
+    autoAdvance: pickBoolean(settings.autoAdvance, defaults.autoAdvance),
+    sequenceMode: pickOption(settings.sequenceMode, ['static', 'adaptive', 'exact'] as const, defaults.sequenceMode),
+    nBackMode: pickOption(settings.nBackMode, ['fixed', 'variable', 'crab'] as const, defaults.nBackMode),
+    variableNMinimum: clampNumber(settings.variableNMinimum, 1, 10, defaults.variableNMinimum, true),
+    arithmeticMode: pickBoolean(settings.arithmeticMode, defaults.arithmeticMode),
+    sessionLengthMode: pickOption(settings.sessionLengthMode, ['rounds', 'timed', 'plan'] as const, defaults.sessionLengthMode),
+    timedMinutes: clampNumber(settings.timedMinutes, 5, 60, defaults.timedMinutes, true),
+    breakDuration: clampNumber(settings.breakDuration, 0, 120, defaults.breakDuration, true),
+    planBlocks: clampNumber(settings.planBlocks, 2, 30, defaults.planBlocks, true),
+    exactTargets: sanitizeExactTargets(settings.exactTargets, defaults.exactTargets),
+    progression: sanitizeProgression(settings.progression, defaults.progression),
+  }
+}
+
+/**
+ * Restores the persisted payload into a validated settings/level pair
+ */
+export const restorePersistedSettings = (persistedState: unknown, defaults: GameSettings): PersistedGameSettings => {
+  const persisted = isRecord(persistedState) ? persistedState : {}
+  const settings = sanitizeSettings(persisted.settings, defaults)
+
+  return {
+    settings,
+    nLevel: pickNLevel(persisted.nLevel, settings.nLevel),
+  }
+}
@@ -0,0 +1,397 @@
+import { GameSession, LevelChangeRecord, ResponseType, StreakSettings, TrainingDay, TrainingSession } from '../types/game'
+import { isValidNLevel } from './gameLogic'
+import { MODALITIES } from './modalities'
+import { createEmptyScore } from './scoring'
+import { isRecord } from './settingsPersistence'
+import { MAX_FREEZE_DAYS, isValidTimeZone } from './trainingCalendar'
+
+/**
+ * Current schema version of exported statistics
+ * Files written before exports were versioned have no version and read as 0; bump this
+ * whenever an exported field is renamed, removed or changes meaning
+ */
+export const STATS_EXPORT_VERSION = 1
+
+export type StatsImportMode = 'merge' | 'replace'
+
+/**
+ * A problem with one field of an import file; `path` points into the JSON, e.g. 'stats.sessions[3].date'
+ */
+export interface ImportFieldError {
+  path: string
+  message: string
+}
+
+/**
+ * An achievement unlock carried by an import file
+ */
+export interface ImportedUnlock {
+  id: string
+  unlockedDate?: number
+}
+
+/**
+ * Validated contents of an import file
+ */
+export interface StatsImport {
+  version: number
+  sessions: GameSession[]
+  levelChanges: LevelChangeRecord[]
+  trainingDays: TrainingDay[]
+  trainingSessions: TrainingSession[]
+  unlockedAchievements: ImportedUnlock[]
+  streakSettings: StreakSettings | null
+  settings: Record<string, unknown> | null // Profile settings, repaired like stored settings when applied
+}
+
+/**
+ * What an import would bring in, for confirming before anything is written
+ */
+export interface StatsImportPreview {
+  sessions: number
+  newSessions: number
+  duplicateSessions: number // Already in this profile's history; skipped when merging
+  levelChanges: number
+  trainingDays: number
+  trainingSessions: number
+  unlockedAchievements: number
+  firstDate: number | null
+  lastDate: number | null
+}
+
+// Score fields that older sessions may lack; missing ones are read as 0
+const SCORE_COUNT_KEYS = Object.keys(createEmptyScore()).filter(key => key !== 'modalities')
+
+const REQUIRED_SCORE_KEYS = ['totalCorrect', 'totalIncorrect', 'totalMissed']
+
+// Settings added after the first release; sessions saved before them do not have them
+const OPTIONAL_SETTING_FLAGS = ['showColor', 'showShape', 'showSecondAudio', 'arithmeticMode']
+const OPTIONAL_SETTING_DURATIONS = ['responseWindow', 'feedbackDuration']
+
+const MODALITY_IDS = MODALITIES.map(modality => modality.id)
+
+const TRIAL_TYPES = ['target', 'nMinus1Lure', 'nPlus1Lure', 'neutral']
+
+// Stimulus values that are only present when their modality or mode was in use
+const OPTIONAL_STIMULUS_VALUES = ['color', 'shape', 'audio2', 'nBack']
+
+/**
+ * Collects errors for one import; each check records what it expected at a path
+ */
+const createChecker = (errors: ImportFieldError[]) => {
+  const fail = (path: string, message: string) => errors.push({ path, message })
+
+  return {
+    fail,
+    record: (value: unknown, path: string): value is Record<string, unknown> => {
+      if (isRecord(value)) return true
+      fail(path, 'must be an object')
+      return false
+    },
+    list: (value: unknown, path: string): value is unknown[] => {
+      if (Array.isArray(value)) return true
+      fail(path, 'must be a list')
+      return false
+    },
+    number: (value: unknown, path: string, { min = 0, integer = false } = {}) => {
+      if (typeof value !== 'number' || !Number.isFinite(value) || value < min || (integer && !Number.isInteger(value))) {
+        fail(path, `must be ${integer ? 'a whole number' : 'a number'} of at least ${min}`)
+      }
+    },
+    string: (value: unknown, path: string) => {
+      if (typeof value !== 'string' || value === '') fail(path, 'must be a non-empty string')
+    },
+    boolean: (value: unknown, path: string) => {
+      if (typeof value !== 'boolean') fail(path, 'must be true or false')
+    },
+    nLevel: (value: unknown, path: string) => {
+      if (typeof value !== 'number' || !isValidNLevel(value)) fail(path, 'must be an N-level from 1 to 10')
+    },
+    option: (value: unknown, path: string, options: readonly unknown[]) => {
+      if (!options.includes(value)) fail(path, `must be one of ${options.join(', ')}`)
+    },
+  }
+}
+
+type Checker = ReturnType<typeof createChecker>
+
+const checkEach = (check: Checker, value: unknown, path: string, validate: (item: unknown, path: string) => void) => {
+  if (check.list(value, path)) value.forEach((item, index) => validate(item, `${path}[${index}]`))
+}
+
+// Checks every entry of a per-modality map: its key must be a modality id and its value pass `validate`
+const checkModalityMap = (check: Checker, value: unknown, path: string, validate: (item: unknown, path: string) => void) => {
+  if (!check.record(value, path)) return
+  Object.entries(value).forEach(([modality, item]) => {
+    if (!MODALITY_IDS.includes(modality as ResponseType)) {
+      check.fail(`${path}.${modality}`, `is not a modality; expected one of ${MODALITY_IDS.join(', ')}`)
+    } else {
+      validate(item, `${path}.${modality}`)
+    }
+  })
+}
+
+// Only the settings that statistics, charts and replays read; the rest are informational
+const validateSessionSettings = (check: Checker, raw: unknown, path: string) => {
+  if (!check.record(raw, path)) return
+  check.nLevel(raw.nLevel, `${path}.nLevel`)
+  check.boolean(raw.showVisual, `${path}.showVisual`)
+  check.boolean(raw.showAudio, `${path}.showAudio`)
+  OPTIONAL_SETTING_FLAGS.forEach(key => {
+    if (raw[key] !== undefined) check.boolean(raw[key], `${path}.${key}`)
+  })
+  check.option(raw.gridSize, `${path}.gridSize`, [3, 4, 5])
+  check.number(raw.stimulusDuration, `${path}.stimulusDuration`)
+  check.number(raw.interstimulusInterval, `${path}.interstimulusInterval`)
+  OPTIONAL_SETTING_DURATIONS.forEach(key => {
+    if (raw[key] !== undefined) check.number(raw[key], `${path}.${key}`)
+  })
+  if (raw.timingMode !== undefined) check.option(raw.timingMode, `${path}.timingMode`, ['extended', 'classic'])
+  check.number(raw.volume, `${path}.volume`)
+
+  check.option(raw.audioType, `${path}.audioType`, ['letters', 'numbers', 'tones', 'words', 'samples'])
+  if (raw.letterSet !== undefined) check.option(raw.letterSet, `${path}.letterSet`, ['standard', 'classic', 'alphabet'])
+  if (raw.customWords !== undefined) {
+    checkEach(check, raw.customWords, `${path}.customWords`, (word, wordPath) => {
+      if (typeof word !== 'string') check.fail(wordPath, 'must be text')
+    })
+  }
+  if (raw.samplePackId !== undefined && raw.samplePackId !== null && typeof raw.samplePackId !== 'string') {
+    check.fail(`${path}.samplePackId`, 'must be text')
+  }
+  if (raw.nBackMode !== undefined) check.option(raw.nBackMode, `${path}.nBackMode`, ['fixed', 'variable', 'crab'])
+}
+
+const validateResponse = (check: Checker, raw: unknown, path: string) => {
+  if (!check.record(raw, path)) return
+  if (raw.type !== undefined) check.option(raw.type, `${path}.type`, MODALITY_IDS)
+  check.number(raw.responseTime, `${path}.responseTime`)
+  check.number(raw.roundIndex, `${path}.roundIndex`, { integer: true })
+  // Responses saved before trials were indexed have no stimulus index
+  if (raw.stimulusIndex !== undefined) check.number(raw.stimulusIndex, `${path}.stimulusIndex`, { integer: true })
+  check.boolean(raw.correct, `${path}.correct`)
+}
+
+const validateStimulus = (check: Checker, raw: unknown, path: string) => {
+  if (!check.record(raw, path)) return
+  check.number(raw.position, `${path}.position`, { integer: true })
+  check.number(raw.audio, `${path}.audio`, { integer: true })
+  check.number(raw.timestamp, `${path}.timestamp`)
+  OPTIONAL_STIMULUS_VALUES.forEach(key => {
+    if (raw[key] !== undefined) check.number(raw[key], `${path}.${key}`, { integer: true })
+  })
+  if (raw.operation !== undefined) check.string(raw.operation, `${path}.operation`)
+}
+
+const validateTrial = (check: Checker, raw: unknown, path: string) => {
+  if (!check.record(raw, path)) return
+  check.number(raw.stimulusIndex, `${path}.stimulusIndex`, { integer: true })
+  check.number(raw.onset, `${path}.onset`)
+  validateStimulus(check, raw.stimulus, `${path}.stimulus`)
+
+  checkModalityMap(check, raw.targets, `${path}.targets`, (target, targetPath) => check.boolean(target, targetPath))
+  if (raw.trialTypes !== undefined) {
+    checkModalityMap(check, raw.trialTypes, `${path}.trialTypes`, (trialType, typePath) => check.option(trialType, typePath, TRIAL_TYPES))
+  }
+  checkModalityMap(check, raw.responses, `${path}.responses`, (response, responsePath) => {
+    if (!check.record(response, responsePath)) return
+    check.number(response.timestamp, `${responsePath}.timestamp`)
+    check.number(response.reactionTime, `${responsePath}.reactionTime`)
+    check.boolean(response.correct, `${responsePath}.correct`)
+  })
+  if (raw.selfPacedInterval !== undefined) check.number(raw.selfPacedInterval, `${path}.selfPacedInterval`)
+  if (raw.arithmetic !== undefined && check.record(raw.arithmetic, `${path}.arithmetic`)) {
+    check.number(raw.arithmetic.expected, `${path}.arithmetic.expected`, { min: -Infinity, integer: true })
+    if (raw.arithmetic.answer !== null) check.number(raw.arithmetic.answer, `${path}.arithmetic.answer`, { min: -Infinity })
+    check.boolean(raw.arithmetic.correct, `${path}.arithmetic.correct`)
+  }
+}
+
+const validateAdaptiveAdjustment = (check: Checker, raw: unknown, path: string) => {
+  if (!check.record(raw, path)) return
+  check.number(raw.stimulusIndex, `${path}.stimulusIndex`, { integer: true })
+  check.number(raw.accuracy, `${path}.accuracy`)
+  check.option(raw.action, `${path}.action`, ['increase', 'decrease', 'maintain'])
+}
+
+const validateSession = (check: Checker, raw: unknown, path: string): raw is Record<string, unknown> => {
+  if (!check.record(raw, path)) return false
+  check.string(raw.id, `${path}.id`)
+  check.number(raw.date, `${path}.date`)
+  check.nLevel(raw.nLevel, `${path}.nLevel`)
+  check.number(raw.totalRounds, `${path}.totalRounds`, { integer: true })
+  check.number(raw.completedRounds, `${path}.completedRounds`, { integer: true })
+  check.number(raw.duration, `${path}.duration`)
+  check.boolean(raw.completed, `${path}.completed`)
+  validateSessionSettings(check, raw.settings, `${path}.settings`)
+  checkEach(check, raw.responses, `${path}.responses`, (item, itemPath) => validateResponse(check, item, itemPath))
+
+  const score = raw.score
+  if (check.record(score, `${path}.score`)) {
+    SCORE_COUNT_KEYS.forEach(key => {
+      if (REQUIRED_SCORE_KEYS.includes(key) || score[key] !== undefined) {
+        check.number(score[key], `${path}.score.${key}`, { integer: true })
+      }
+    })
+    if (score.modalities !== undefined) check.record(score.modalities, `${path}.score.modalities`)
+  }
+
+  if (raw.sequence !== undefined) {
+    checkEach(check, raw.sequence, `${path}.sequence`, (item, itemPath) => validateStimulus(check, item, itemPath))
+  }
+  if (raw.trials !== undefined) {
+    checkEach(check, raw.trials, `${path}.trials`, (item, itemPath) => validateTrial(check, item, itemPath))
+  }
+  if (raw.adaptiveAdjustments !== undefined) {
+    checkEach(check, raw.adaptiveAdjustments, `${path}.adaptiveAdjustments`, (item, itemPath) => validateAdaptiveAdjustment(check, item, itemPath))
+  }
+  return true
+}
+
+const validateLevelChange = (check: Checker, raw: unknown, path: string) => {
+  if (!check.record(raw, path)) return
+  check.number(raw.date, `${path}.date`)
+  check.string(raw.sessionId, `${path}.sessionId`)
+  check.nLevel(raw.fromLevel, `${path}.fromLevel`)
+  check.nLevel(raw.toLevel, `${path}.toLevel`)
+  if (typeof raw.reason !== 'string') check.fail(`${path}.reason`, 'must be text')
+}
+
+const validateBlockRecord = (check: Checker, raw: unknown, path: string, kind: 'day' | 'plan') => {
+  if (!check.record(raw, path)) return
+  check.string(raw.id, `${path}.id`)
+  check.number(raw.date, `${path}.date`)
+  check.boolean(raw.completed, `${path}.completed`)
+  checkEach(check, raw.sessionIds, `${path}.sessionIds`, (id, idPath) => check.string(id, idPath))
+
+  if (kind === 'day') {
+    check.number(raw.targetDuration, `${path}.targetDuration`)
+    check.number(raw.playTime, `${path}.playTime`)
+  } else {
+    check.number(raw.plannedBlocks, `${path}.plannedBlocks`, { min: 1, integer: true })
+    checkEach(check, raw.levels, `${path}.levels`, (level, levelPath) => check.nLevel(level, levelPath))
+  }
+}
+
+const validateStreakSettings = (check: Checker, raw: unknown, path: string): raw is StreakSettings => {
+  if (!check.record(raw, path)) return false
+  let valid = true
+  if (typeof raw.freezeDays !== 'number' || !Number.isInteger(raw.freezeDays) || raw.freezeDays < 0 || raw.freezeDays > MAX_FREEZE_DAYS) {
+    check.fail(`${path}.freezeDays`, `must be a whole number from 0 to ${MAX_FREEZE_DAYS}`)
+    valid = false
+  }
+  if (raw.timeZone !== null && (typeof raw.timeZone !== 'string' || !isValidTimeZone(raw.timeZone))) {
+    check.fail(`${path}.timeZone`, 'must be a known timezone such as Europe/Berlin, or null')
+    valid = false
+  }
+  return valid
+}
+
+/**
+ * Parses and validates exported statistics against the versioned schema
+ * Every problem is reported with its path; data is only returned when there are none
+ */
+export const parseStatsImport = (text: string): { data: StatsImport | null, errors: ImportFieldError[] } => {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(text)
+  } catch (error) {
+    return { data: null, errors: [{ path: '(file)', message: `is not valid JSON: ${error instanceof Error ? error.message : error}` }] }
+  }
+
+  const errors: ImportFieldError[] = []
+  const check = createChecker(errors)
+  if (!check.record(parsed, '(file)')) return { data: null, errors }
+
+  const version = parsed.version ?? 0
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 0) {
+    check.fail('version', 'must be a whole number')
+  } else if (version > STATS_EXPORT_VERSION) {
+    check.fail('version', `is ${version}, but this app reads files up to version ${STATS_EXPORT_VERSION}; update the app first`)
+  }
+
+  // Only the sessions are read from `stats`; the aggregates next to them are recomputed
+  const sessions: GameSession[] = []
+  if (check.record(parsed.stats, 'stats') && check.list(parsed.stats.sessions, 'stats.sessions')) {
+    const seenIds = new Map<string, number>()
+    parsed.stats.sessions.forEach((raw, index) => {
+      const path = `stats.sessions[${index}]`
+      if (!validateSession(check, raw, path) || typeof raw.id !== 'string' || !isRecord(raw.score)) return
+
+      const firstIndex = seenIds.get(raw.id)
+      if (firstIndex !== undefined) {
+        check.fail(`${path}.id`, `repeats the id of stats.sessions[${firstIndex}]`)
+      } else {
+        seenIds.set(raw.id, index)
+      }
+      const score = Object.fromEntries(SCORE_COUNT_KEYS.map(key => [key, 0]))
+      // Checked field by field above; nothing is returned if any check failed
+      sessions.push({ ...raw, score: { ...score, ...raw.score } } as GameSession)
+    })
+  }
+
+  const readList = <T>(key: string, validate: (raw: unknown, path: string) => void): T[] => {
+    const value = parsed[key]
+    if (value === undefined) return []
+    if (!check.list(value, key)) return []
+    value.forEach((raw, index) => validate(raw, `${key}[${index}]`))
+    return value as T[]
+  }
+
+  const levelChanges = readList<LevelChangeRecord>('levelChanges', (raw, path) => validateLevelChange(check, raw, path))
+  const trainingDays = readList<TrainingDay>('trainingDays', (raw, path) => validateBlockRecord(check, raw, path, 'day'))
+  const trainingSessions = readList<TrainingSession>('trainingSessions', (raw, path) => validateBlockRecord(check, raw, path, 'plan'))
+
+  const unlockedAchievements: ImportedUnlock[] = []
+  readList<unknown>('achievements', (raw, path) => {
+    if (!check.record(raw, path)) return
+    check.string(raw.id, `${path}.id`)
+    check.boolean(raw.unlocked, `${path}.unlocked`)
+    if (raw.unlockedDate !== undefined) check.number(raw.unlockedDate, `${path}.unlockedDate`)
+    if (raw.unlocked === true && typeof raw.id === 'string') {
+      unlockedAchievements.push({ id: raw.id, unlockedDate: typeof raw.unlockedDate === 'number' ? raw.unlockedDate : undefined })
+    }
+  })
+
+  const streakSettings = parsed.streakSettings !== undefined && validateStreakSettings(check, parsed.streakSettings, 'streakSettings')
+    ? { freezeDays: parsed.streakSettings.freezeDays, timeZone: parsed.streakSettings.timeZone }
+    : null
+
+  const settings = parsed.settings !== undefined && check.record(parsed.settings, 'settings') ? parsed.settings : null
+
+  // A version that is not a number was reported above
+  if (errors.length > 0 || typeof version !== 'number') return { data: null, errors }
+  return {
+    data: { version, sessions, levelChanges, trainingDays, trainingSessions, unlockedAchievements, streakSettings, settings },
+    errors,
+  }
+}
+
+/**
+ * Counts what an import holds and how much of it is new to the existing history
+ */
+export const getStatsImportPreview = (data: StatsImport, existingSessions: GameSession[]): StatsImportPreview => {
+  const existingIds = new Set(existingSessions.map(session => session.id))
+  const duplicateSessions = data.sessions.filter(session => existingIds.has(session.id)).length
+  const dates = data.sessions.map(session => session.date)
+
+  return {
+    sessions: data.sessions.length,
+    newSessions: data.sessions.length - duplicateSessions,
+    duplicateSessions,
+    levelChanges: data.levelChanges.length,
+    trainingDays: data.trainingDays.length,
+    trainingSessions: data.trainingSessions.length,
+    unlockedAchievements: data.unlockedAchievements.length,
+    firstDate: dates.length > 0 ? Math.min(...dates) : null,
+    lastDate: dates.length > 0 ? Math.max(...dates) : null,
+  }
+}
+
+/**
+ * Appends the imported records whose key is not taken yet; existing records win
+ */
+export const mergeByKey = <T>(existing: T[], imported: T[], getKey: (record: T) => string): T[] => {
+  const keys = new Set(existing.map(getKey))
+  return [...existing, ...imported.filter(record => !keys.has(getKey(record)))]
+}
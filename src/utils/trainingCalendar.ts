@@ -0,0 +1,149 @@
+import { GameSession, StreakSettings } from '../types/game'
+
+/**
+ * A local calendar day as 'YYYY-MM-DD'; keys sort in chronological order
+ */
+export type DayKey = string
+
+/**
+ * Current and longest streak of training days, with the missed days grace covered
+ */
+export interface StreakSummary {
+  currentStreak: number
+  longestStreak: number
+  lastTrainingDay: DayKey | null
+  frozenDays: DayKey[] // Missed days bridged by freeze days, across all streaks
+}
+
+export const MAX_FREEZE_DAYS = 3
+
+export const DEFAULT_STREAK_SETTINGS: StreakSettings = { freezeDays: 0, timeZone: null }
+
+// Day keys are stepped in UTC, where every day has exactly this length
+const MS_PER_UTC_DAY = 86400000
+
+const dayFormatters = new Map<string, Intl.DateTimeFormat>()
+
+/**
+ * The timezone the device is set to
+ */
+export const getDeviceTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone
+
+/**
+ * Whether the browser knows an IANA timezone name such as 'Europe/Berlin'
+ */
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * The configured timezone, or the device's when none is set or it is not recognized
+ */
+export const resolveTimeZone = (timeZone: string | null | undefined): string =>
+  timeZone && isValidTimeZone(timeZone) ? timeZone : getDeviceTimeZone()
+
+/**
+ * The calendar day a moment falls on in a timezone
+ */
+export const getDayKey = (timestamp: number, timeZone: string | null = null): DayKey => {
+  const zone = resolveTimeZone(timeZone)
+  let formatter = dayFormatters.get(zone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', { timeZone: zone, year: 'numeric', month: '2-digit', day: '2-digit' })
+    dayFormatters.set(zone, formatter)
+  }
+
+  const parts = Object.fromEntries(formatter.formatToParts(timestamp).map(part => [part.type, part.value]))
+  return `${parts.year}-${parts.month}-${parts.day}`
+}
+
+const dayKeyToUtc = (day: DayKey): number => {
+  const [year, month, date] = day.split('-').map(Number)
+  return Date.UTC(year, month - 1, date)
+}
+
+/**
+ * The day `days` calendar days after `day` (before, when negative)
+ */
+export const addDays = (day: DayKey, days: number): DayKey =>
+  new Date(dayKeyToUtc(day) + days * MS_PER_UTC_DAY).toISOString().slice(0, 10)
+
+/**
+ * Calendar days from `from` to `to`; 1 for consecutive days
+ */
+export const daysBetween = (from: DayKey, to: DayKey): number =>
+  Math.round((dayKeyToUtc(to) - dayKeyToUtc(from)) / MS_PER_UTC_DAY)
+
+/**
+ * Day of the week of a day key, Monday = 0 through Sunday = 6
+ */
+export const getWeekday = (day: DayKey): number => (new Date(dayKeyToUtc(day)).getUTCDay() + 6) % 7
+
+/**
+ * Counts streaks of training days in the configured timezone
+ * A gap of up to `freezeDays` missed days keeps a streak going without lengthening it
+ * Today is still open, so a streak stays current while the missed days since the last
+ * training day, not counting today, fit within the freeze days
+ */
+export const calculateStreaks = (
+  timestamps: number[],
+  settings: StreakSettings,
+  now: number = Date.now()
+): StreakSummary => {
+  const days = [...new Set(timestamps.map(timestamp => getDayKey(timestamp, settings.timeZone)))].sort()
+  const frozenDays: DayKey[] = []
+  let longestStreak = 0
+  let streak = 0
+
+  days.forEach((day, index) => {
+    const missed = index > 0 ? daysBetween(days[index - 1], day) - 1 : Infinity
+    if (missed <= settings.freezeDays) {
+      streak++
+      for (let offset = 1; offset <= missed; offset++) frozenDays.push(addDays(days[index - 1], offset))
+    } else {
+      streak = 1
+    }
+    longestStreak = Math.max(longestStreak, streak)
+  })
+
+  const lastTrainingDay = days.length > 0 ? days[days.length - 1] : null
+  const missedSinceLast = lastTrainingDay ? daysBetween(lastTrainingDay, getDayKey(now, settings.timeZone)) - 1 : Infinity
+
+  return {
+    currentStreak: missedSinceLast <= settings.freezeDays ? streak : 0,
+    longestStreak,
+    lastTrainingDay,
+    frozenDays,
+  }
+}
+
+/**
+ * Minutes trained per calendar day
+ */
+export const getDailyMinutes = (sessions: GameSession[], timeZone: string | null): Map<DayKey, number> => {
+  const minutes = new Map<DayKey, number>()
+  sessions.forEach(session => {
+    const day = getDayKey(session.date, timeZone)
+    minutes.set(day, (minutes.get(day) ?? 0) + session.duration / 60000)
+  })
+  return minutes
+}
+
+/**
+ * Calendar grid of the last `weekCount` weeks up to `today`, one Monday-to-Sunday column per week
+ * Days after today are null
+ */
+export const getCalendarWeeks = (today: DayKey, weekCount: number): (DayKey | null)[][] => {
+  const firstMonday = addDays(today, -getWeekday(today) - (weekCount - 1) * 7)
+  return Array.from({ length: weekCount }, (_, week) =>
+    Array.from({ length: 7 }, (_, weekday) => {
+      const day = addDays(firstMonday, week * 7 + weekday)
+      return day <= today ? day : null
+    })
+  )
+}
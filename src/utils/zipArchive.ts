@@ -0,0 +1,80 @@
+/**
+ * A file read from a zip archive or picked from a folder
+ */
+export interface ArchiveFile {
+  name: string // Path inside the archive or folder
+  data: ArrayBuffer
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50
+const LOCAL_FILE_HEADER = 0x04034b50
+
+const STORED = 0
+const DEFLATED = 8
+
+/**
+ * Finds the end-of-central-directory record, which sits before an optional trailing comment
+ */
+const findEndOfCentralDirectory = (view: DataView): number => {
+  const earliest = Math.max(0, view.byteLength - 22 - 0xffff)
+  for (let offset = view.byteLength - 22; offset >= earliest; offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) return offset
+  }
+  throw new Error('Not a zip archive')
+}
+
+/**
+ * Inflates raw deflate data with the browser's own decompressor
+ */
+const inflate = async (data: ArrayBuffer): Promise<ArrayBuffer> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'))
+  return new Response(stream).arrayBuffer()
+}
+
+/**
+ * Reads every file in a zip archive; folders are skipped
+ * Supports stored and deflated entries, which covers archives made by common zip tools
+ */
+export const readZipArchive = async (archive: ArrayBuffer): Promise<ArchiveFile[]> => {
+  const view = new DataView(archive)
+  const end = findEndOfCentralDirectory(view)
+  const entryCount = view.getUint16(end + 10, true)
+  const decoder = new TextDecoder()
+  const files: ArchiveFile[] = []
+
+  let offset = view.getUint32(end + 16, true)
+  for (let entry = 0; entry < entryCount; entry++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new Error('Corrupt zip archive')
+    }
+
+    const method = view.getUint16(offset + 10, true)
+    const compressedSize = view.getUint32(offset + 20, true)
+    const nameLength = view.getUint16(offset + 28, true)
+    const extraLength = view.getUint16(offset + 30, true)
+    const commentLength = view.getUint16(offset + 32, true)
+    const localHeader = view.getUint32(offset + 42, true)
+    const name = decoder.decode(new Uint8Array(archive, offset + 46, nameLength))
+    offset += 46 + nameLength + extraLength + commentLength
+
+    if (name.endsWith('/')) continue
+    if (view.getUint32(localHeader, true) !== LOCAL_FILE_HEADER) {
+      throw new Error(`Corrupt zip entry: ${name}`)
+    }
+
+    // The local header repeats the name and may carry a different extra field
+    const dataStart = localHeader + 30 + view.getUint16(localHeader + 26, true) + view.getUint16(localHeader + 28, true)
+    const data = archive.slice(dataStart, dataStart + compressedSize)
+
+    if (method === STORED) {
+      files.push({ name, data })
+    } else if (method === DEFLATED) {
+      files.push({ name, data: await inflate(data) })
+    } else {
+      throw new Error(`Unsupported compression in zip entry: ${name}`)
+    }
+  }
+
+  return files
+}